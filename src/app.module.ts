@@ -1,24 +1,45 @@
 import cloudinaryConfig from './config/cloudinary.config';
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
-import { APP_GUARD } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import appConfig from './config/app.config';
 import jwtConfig from './config/jwt.config';
+import authConfig from './config/auth.config';
+import mailConfig from './config/mail.config';
+import passwordConfig from './config/password.config';
 import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { JwtAuthGuard } from './common/guards/jwt-auth.guard';
 import { RolesGuard } from './common/guards/roles.guard';
+import { EmailVerifiedGuard } from './common/guards/email-verified.guard';
+import { ScopesGuard } from './common/guards/scopes.guard';
+import { PermissionsGuard } from './common/guards/permissions.guard';
+import { ImpersonationGuard } from './common/guards/impersonation.guard';
+import { ImpersonationAuditInterceptor } from './common/interceptors/impersonation-audit.interceptor';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { CloudinaryModule } from './services/cloudinary/cloudinary.module';
 import { ProjectsModule } from './modules/projects/projects.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { ApiKeysModule } from './modules/api-keys/api-keys.module';
+import { RolesModule } from './modules/roles/roles.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { CsrfMiddleware } from './common/middleware/csrf.middleware';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, jwtConfig, cloudinaryConfig],
+      load: [
+        appConfig,
+        jwtConfig,
+        authConfig,
+        passwordConfig,
+        cloudinaryConfig,
+        mailConfig,
+      ],
     }),
     MongooseModule.forRootAsync({
       imports: [ConfigModule],
@@ -27,16 +48,30 @@ import { ProjectsModule } from './modules/projects/projects.module';
       }),
       inject: [ConfigService],
     }),
+    ScheduleModule.forRoot(),
     AuthModule,
     UsersModule,
     CloudinaryModule,
     ProjectsModule,
+    AuditModule,
+    ApiKeysModule,
+    RolesModule,
+    OrganizationsModule,
   ],
   controllers: [AppController],
   providers: [
     { provide: APP_GUARD, useClass: JwtAuthGuard },
+    { provide: APP_GUARD, useClass: ScopesGuard },
     { provide: APP_GUARD, useClass: RolesGuard },
+    { provide: APP_GUARD, useClass: PermissionsGuard },
+    { provide: APP_GUARD, useClass: EmailVerifiedGuard },
+    { provide: APP_GUARD, useClass: ImpersonationGuard },
+    { provide: APP_INTERCEPTOR, useClass: ImpersonationAuditInterceptor },
     AppService,
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer): void {
+    consumer.apply(CsrfMiddleware).forRoutes('{*splat}');
+  }
+}
@@ -0,0 +1,203 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { getConnectionToken, MongooseModule } from '@nestjs/mongoose';
+import { Connection, Types } from 'mongoose';
+import { parseArgs } from 'node:util';
+import appConfig from './config/app.config';
+import authConfig from './config/auth.config';
+import passwordConfig from './config/password.config';
+import cloudinaryConfig from './config/cloudinary.config';
+import mailConfig from './config/mail.config';
+import { UsersModule } from './modules/users/users.module';
+import { UsersService } from './modules/users/users.service';
+import { UserRole } from './modules/users/schemas/user.schema';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
+import { OrganizationsService } from './modules/organizations/organizations.service';
+import { ProjectsModule } from './modules/projects/projects.module';
+import { ProjectsService } from './modules/projects/projects.service';
+import { runInTenant } from './common/tenancy/tenant-context';
+
+/**
+ * Just enough of the application to work on users, roles, organizations
+ * and projects; the HTTP
+ * stack and signing keys are not needed here.
+ */
+@Module({
+  imports: [
+    ConfigModule.forRoot({
+      isGlobal: true,
+      load: [
+        appConfig,
+        authConfig,
+        passwordConfig,
+        cloudinaryConfig,
+        mailConfig,
+      ],
+    }),
+    MongooseModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        uri: configService.get<string>('MONGODB_URI'),
+      }),
+      inject: [ConfigService],
+    }),
+    UsersModule,
+    OrganizationsModule,
+    ProjectsModule,
+  ],
+})
+class CliModule {}
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  create-admin --email <email> [--first-name <name>] [--last-name <name>]
+      Promotes an existing account to admin, or creates a verified admin
+      account. New accounts take their password from ADMIN_PASSWORD (or
+      --password) and must satisfy the password policy.
+
+  adopt-projects --organization <id>
+      Assigns projects created before organizations existed to the given
+      organization. Until then they are invisible to every tenant.
+
+  backfill-slugs
+      Gives a slug to every project created before slugs existed.
+
+  verify-legacy-accounts
+      Marks accounts created before email verification existed as verified.
+      Run it once when deploying verification, or those users cannot log in.`;
+
+async function createAdmin(
+  usersService: UsersService,
+  args: string[],
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      email: { type: 'string' },
+      password: { type: 'string' },
+      'first-name': { type: 'string', default: 'Admin' },
+      'last-name': { type: 'string', default: 'User' },
+    },
+  });
+  if (!values.email) throw new Error('--email is required');
+
+  const existing = await usersService.findByEmail(values.email);
+  if (existing) {
+    await usersService.setRole(existing.id, UserRole.ADMIN);
+    console.log(`Promoted ${existing.email} to ${UserRole.ADMIN}`);
+    return;
+  }
+
+  const password = values.password ?? process.env.ADMIN_PASSWORD;
+  if (!password) {
+    throw new Error(
+      'Set ADMIN_PASSWORD (or pass --password) to create a new account',
+    );
+  }
+
+  const user = await usersService.create(
+    {
+      firstName: values['first-name'],
+      lastName: values['last-name'],
+      email: values.email,
+      password,
+    },
+    null,
+    { role: UserRole.ADMIN, emailVerified: true },
+  );
+  console.log(`Created ${user.email} as ${UserRole.ADMIN}`);
+}
+
+async function adoptProjects(
+  organizationsService: OrganizationsService,
+  connection: Connection,
+  args: string[],
+): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: { organization: { type: 'string' } },
+  });
+  if (!values.organization) throw new Error('--organization is required');
+  if (!(await organizationsService.exists(values.organization))) {
+    throw new Error(`Organization ${values.organization} not found`);
+  }
+
+  // Straight to the collection: the model refuses to run without a tenant.
+  const { modifiedCount } = await connection
+    .collection('projects')
+    .updateMany(
+      { organization: { $exists: false } },
+      { $set: { organization: new Types.ObjectId(values.organization) } },
+    );
+  console.log(`Assigned ${modifiedCount} project(s)`);
+}
+
+async function backfillSlugs(
+  projectsService: ProjectsService,
+  connection: Connection,
+): Promise<void> {
+  const organizations = await connection
+    .collection('projects')
+    .distinct('organization', { slug: null });
+
+  let assigned = 0;
+  for (const organization of organizations) {
+    if (!organization) continue;
+    assigned += await runInTenant(
+      { organizationId: String(organization), role: null },
+      () => projectsService.backfillSlugs(),
+    );
+  }
+  console.log(`Assigned slugs to ${assigned} project(s)`);
+}
+
+async function verifyLegacyAccounts(usersService: UsersService): Promise<void> {
+  const verified = await usersService.verifyLegacyAccounts();
+  console.log(`Marked ${verified} account(s) as verified`);
+}
+
+const COMMANDS = [
+  'create-admin',
+  'adopt-projects',
+  'backfill-slugs',
+  'verify-legacy-accounts',
+];
+
+async function run(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  if (!COMMANDS.includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CliModule, {
+    logger: ['error', 'warn'],
+  });
+  try {
+    if (command === 'create-admin') {
+      await createAdmin(app.get(UsersService), args);
+    } else if (command === 'adopt-projects') {
+      await adoptProjects(
+        app.get(OrganizationsService),
+        app.get<Connection>(getConnectionToken()),
+        args,
+      );
+    } else if (command === 'backfill-slugs') {
+      await backfillSlugs(
+        app.get(ProjectsService),
+        app.get<Connection>(getConnectionToken()),
+      );
+    } else {
+      await verifyLegacyAccounts(app.get(UsersService));
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+void run();
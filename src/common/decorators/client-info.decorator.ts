@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import { ClientDetails } from '../types/auth.types';
+
+export const ClientInfo = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ClientDetails => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return {
+      userAgent: request.headers['user-agent'] ?? null,
+      ip: request.ip ?? null,
+    };
+  },
+);
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DISALLOW_IMPERSONATION_KEY = 'disallowImpersonation';
+export const DisallowImpersonation = () =>
+  SetMetadata(DISALLOW_IMPERSONATION_KEY, true);
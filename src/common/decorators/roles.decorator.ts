@@ -1,6 +1,4 @@
 import { SetMetadata } from '@nestjs/common';
-import { UserRole } from 'src/modules/users/schemas/user.schema';
-
 
 export const ROLES_KEY = 'roles';
-export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../modules/api-keys/schemas/api-key.schema';
+
+export const SCOPES_KEY = 'scopes';
+export const RequireScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(SCOPES_KEY, scopes);
@@ -0,0 +1,11 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Raised for every request made by or for a deactivated account, so clients
+ * can tell it apart from an expired token and stop retrying.
+ */
+export class AccountDeactivatedException extends ForbiddenException {
+  constructor(message = 'This account has been deactivated') {
+    super(message);
+  }
+}
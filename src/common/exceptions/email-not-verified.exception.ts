@@ -0,0 +1,12 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Raised when an account has not confirmed its email address yet. Kept as its
+ * own class so the global filter reports a distinct `error` code clients can
+ * branch on (e.g. to offer "resend verification email").
+ */
+export class EmailNotVerifiedException extends ForbiddenException {
+  constructor(message = 'Email address has not been verified') {
+    super(message);
+  }
+}
@@ -0,0 +1,11 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Raised when an impersonation token reaches a route that changes the
+ * account's credentials or sessions. Those stay with the real user.
+ */
+export class ImpersonationNotAllowedException extends ForbiddenException {
+  constructor(message = 'This action is not available while impersonating') {
+    super(message);
+  }
+}
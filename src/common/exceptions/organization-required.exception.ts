@@ -0,0 +1,14 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Raised when a tenant-scoped route is called without an active
+ * organization, so clients know to send `X-Org-Id` or switch organization
+ * rather than treat it as a validation error.
+ */
+export class OrganizationRequiredException extends BadRequestException {
+  constructor(
+    message = 'No active organization; send the X-Org-Id header or switch organization',
+  ) {
+    super(message);
+  }
+}
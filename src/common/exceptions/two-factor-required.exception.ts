@@ -0,0 +1,14 @@
+import { ForbiddenException } from '@nestjs/common';
+
+/**
+ * Raised when the route is only available to sessions established with a
+ * second factor. Its own class so clients can tell it apart from a plain 403
+ * and send the user to enrollment or a fresh login.
+ */
+export class TwoFactorRequiredException extends ForbiddenException {
+  constructor(
+    message = 'Two-factor authentication is required for this account, enable it and log in again',
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,11 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Raised when a new password breaks the password policy. Carries every broken
+ * rule so forms can show them all at once.
+ */
+export class WeakPasswordException extends BadRequestException {
+  constructor(problems: string[]) {
+    super(problems);
+  }
+}
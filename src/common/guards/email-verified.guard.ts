@@ -0,0 +1,32 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRE_VERIFIED_EMAIL_KEY } from '../decorators/require-verified-email.decorator';
+import { EmailNotVerifiedException } from '../exceptions/email-not-verified.exception';
+import { UsersService } from '../../modules/users/users.service';
+import { JwtUser } from '../types/auth.types';
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_VERIFIED_EMAIL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required) return true;
+
+    const request = context.switchToHttp().getRequest<{ user?: JwtUser }>();
+    if (!request.user) return false;
+
+    // Looked up rather than read from the token so a change of address takes
+    // effect immediately instead of when the access token next rotates.
+    const user = await this.usersService.findById(request.user.userId);
+    if (!user?.emailVerified) throw new EmailNotVerifiedException();
+
+    return true;
+  }
+}
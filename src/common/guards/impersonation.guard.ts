@@ -0,0 +1,23 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { DISALLOW_IMPERSONATION_KEY } from '../decorators/disallow-impersonation.decorator';
+import { ImpersonationNotAllowedException } from '../exceptions/impersonation-not-allowed.exception';
+import { JwtUser } from '../types/auth.types';
+
+@Injectable()
+export class ImpersonationGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const disallowed = this.reflector.getAllAndOverride<boolean>(
+      DISALLOW_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!disallowed) return true;
+
+    const request = context.switchToHttp().getRequest<{ user?: JwtUser }>();
+    if (request.user?.actor) throw new ImpersonationNotAllowedException();
+
+    return true;
+  }
+}
@@ -5,7 +5,9 @@ import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 import type { Observable } from 'rxjs';
 
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+// Tries an access token (a Bearer header, or the cookie when no credential
+// header is sent; see extractAccessToken), then an API key.
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private readonly reflector: Reflector) {
     super();
   }
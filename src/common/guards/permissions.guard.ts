@@ -0,0 +1,58 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { TwoFactorRequiredException } from '../exceptions/two-factor-required.exception';
+import { AuthConfig } from '../../config/auth.config';
+import { RolesService } from '../../modules/roles/roles.service';
+import { Permission } from '../../modules/roles/schemas/role.schema';
+import { UserRole } from '../../modules/users/schemas/user.schema';
+import { JwtUser } from '../types/auth.types';
+
+/**
+ * Permissions are resolved from the user's role on each request (through
+ * RolesService's cache) rather than embedded in the token, so editing a
+ * role takes effect without waiting for access tokens to rotate.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    private readonly rolesService: RolesService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required || required.length === 0) return true;
+
+    const request = context.switchToHttp().getRequest<{ user?: JwtUser }>();
+    const user = request.user;
+    if (!user?.role) throw new ForbiddenException('Access denied');
+
+    const granted = await this.rolesService.getPermissions(user.role);
+    if (!required.every((permission) => granted.includes(permission))) {
+      throw new ForbiddenException('Missing required permission');
+    }
+
+    const { enforceAdminTwoFactor } =
+      this.configService.get<AuthConfig>('auth')!;
+    if (
+      enforceAdminTwoFactor &&
+      user.role === (UserRole.ADMIN as string) &&
+      !user.twoFactorVerified
+    ) {
+      throw new TwoFactorRequiredException();
+    }
+
+    return true;
+  }
+}
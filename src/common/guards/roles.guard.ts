@@ -5,17 +5,23 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import { TwoFactorRequiredException } from '../exceptions/two-factor-required.exception';
+import { AuthConfig } from '../../config/auth.config';
 
 import { UserRole } from '../../modules/users/schemas/user.schema';
 import { JwtUser } from '../types/auth.types';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private readonly reflector: Reflector) {}
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+  ) {}
 
   canActivate(context: ExecutionContext): boolean {
-    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
       ROLES_KEY,
       [context.getHandler(), context.getClass()],
     );
@@ -25,6 +31,18 @@ export class RolesGuard implements CanActivate {
     const user = request.user;
     if (!user?.role) throw new ForbiddenException('Access denied');
 
-    return requiredRoles.includes(user.role);
+    if (!requiredRoles.includes(user.role)) return false;
+
+    const { enforceAdminTwoFactor } =
+      this.configService.get<AuthConfig>('auth')!;
+    if (
+      enforceAdminTwoFactor &&
+      user.role === (UserRole.ADMIN as string) &&
+      !user.twoFactorVerified
+    ) {
+      throw new TwoFactorRequiredException();
+    }
+
+    return true;
   }
 }
@@ -0,0 +1,43 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SCOPES_KEY } from '../decorators/scopes.decorator';
+import { ApiKeyScope } from '../../modules/api-keys/schemas/api-key.schema';
+import { JwtUser } from '../types/auth.types';
+
+/**
+ * Scopes only restrict API key requests; browser sessions are unaffected.
+ * Routes without @RequireScopes() are closed to API keys altogether, so new
+ * endpoints are never reachable by machine clients by accident.
+ */
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<{ user?: JwtUser }>();
+    const user = request.user;
+    if (user?.authMethod !== 'api-key') return true;
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(
+      SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!requiredScopes || requiredScopes.length === 0) {
+      throw new ForbiddenException(
+        'This endpoint is not available to API keys',
+      );
+    }
+
+    const granted = user.scopes ?? [];
+    if (!requiredScopes.every((scope) => granted.includes(scope))) {
+      throw new ForbiddenException('API key is missing a required scope');
+    }
+
+    return true;
+  }
+}
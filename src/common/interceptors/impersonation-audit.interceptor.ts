@@ -0,0 +1,52 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Request } from 'express';
+import { AuditService } from '../../modules/audit/audit.service';
+import { AuditEvent } from '../../modules/audit/schemas/audit-log.schema';
+import { JwtUser } from '../types/auth.types';
+
+/**
+ * Records every request made with an impersonation token, so the audit log
+ * shows exactly what an admin looked at or changed on a user's behalf.
+ */
+@Injectable()
+export class ImpersonationAuditInterceptor implements NestInterceptor {
+  constructor(private readonly auditService: AuditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: JwtUser }>();
+    const user = request.user;
+    if (!user?.actor) return next.handle();
+    const actorId = user.actor.userId;
+
+    const record = (outcome: 'success' | 'error'): void => {
+      void this.auditService.record({
+        event: AuditEvent.IMPERSONATED_REQUEST,
+        userId: user.userId,
+        actorId,
+        ip: request.ip ?? null,
+        userAgent: request.headers['user-agent'] ?? null,
+        metadata: {
+          method: request.method,
+          path: request.originalUrl,
+          outcome,
+        },
+      });
+    };
+
+    return next.handle().pipe(
+      tap({
+        complete: () => record('success'),
+        error: () => record('error'),
+      }),
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { ForbiddenException } from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { CSRF_COOKIE, CSRF_HEADER, CsrfMiddleware } from './csrf.middleware';
+
+describe('CsrfMiddleware', () => {
+  const middleware = new CsrfMiddleware();
+  const cookie = jest.fn();
+  const res = { cookie } as unknown as Response;
+  const next = jest.fn();
+
+  const request = (
+    method: string,
+    cookies: Record<string, string>,
+    headers: Record<string, string> = {},
+  ) => ({ method, cookies, headers }) as unknown as Request;
+
+  const session = { accessToken: 'jwt', [CSRF_COOKIE]: 'csrf-token' };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('issues a token cookie to clients without one', () => {
+    middleware.use(request('GET', {}), res, next);
+
+    expect(cookie).toHaveBeenCalledWith(
+      CSRF_COOKIE,
+      expect.any(String),
+      expect.objectContaining({ httpOnly: false, sameSite: 'strict' }),
+    );
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('lets safe methods through without a token', () => {
+    middleware.use(request('GET', session), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects cookie-authenticated writes without the header', () => {
+    expect(() => middleware.use(request('POST', session), res, next)).toThrow(
+      ForbiddenException,
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects a header that does not match the cookie', () => {
+    expect(() =>
+      middleware.use(
+        request('DELETE', session, { [CSRF_HEADER]: 'other-token' }),
+        res,
+        next,
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('accepts a header matching the cookie', () => {
+    middleware.use(
+      request('PATCH', session, { [CSRF_HEADER]: 'csrf-token' }),
+      res,
+      next,
+    );
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('skips requests presenting a Bearer token or an API key', () => {
+    middleware.use(
+      request('POST', session, { authorization: 'Bearer jwt' }),
+      res,
+      next,
+    );
+    middleware.use(
+      request('POST', session, { 'x-api-key': 'nlk_key' }),
+      res,
+      next,
+    );
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('still checks cookie requests with another Authorization scheme', () => {
+    expect(() =>
+      middleware.use(
+        request('POST', session, { authorization: 'Basic eDp5' }),
+        res,
+        next,
+      ),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('lets unauthenticated writes through', () => {
+    middleware.use(request('POST', { [CSRF_COOKIE]: 'csrf-token' }), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
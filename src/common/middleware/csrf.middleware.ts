@@ -0,0 +1,69 @@
+import { ForbiddenException, Injectable, NestMiddleware } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { generateToken } from '../utils/token.util';
+
+export const CSRF_COOKIE = 'csrfToken';
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+const AUTH_COOKIES = ['accessToken', 'refreshToken'];
+
+/**
+ * Double-submit CSRF protection. Every client gets a readable csrfToken
+ * cookie; unsafe requests authenticated by cookie must echo it back in the
+ * X-CSRF-Token header, which a cross-site page cannot do.
+ *
+ * Requests presenting a Bearer token or an API key are not checked:
+ * browsers never attach those headers on their own, and JwtStrategy
+ * ignores the cookies of any request that sends them.
+ */
+@Injectable()
+export class CsrfMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    const cookies = req.cookies as Record<string, string | undefined>;
+    const cookieToken = cookies[CSRF_COOKIE];
+
+    if (!cookieToken) {
+      res.cookie(CSRF_COOKIE, generateToken(), {
+        httpOnly: false,
+        secure: process.env['NODE_ENV'] === 'production',
+        sameSite: 'strict',
+      });
+    }
+
+    if (SAFE_METHODS.has(req.method) || !this.isCookieAuthenticated(req)) {
+      return next();
+    }
+
+    const headerToken = req.headers[CSRF_HEADER];
+    if (
+      !cookieToken ||
+      typeof headerToken !== 'string' ||
+      !this.tokensMatch(cookieToken, headerToken)
+    ) {
+      throw new ForbiddenException('Invalid or missing CSRF token');
+    }
+
+    next();
+  }
+
+  private isCookieAuthenticated(req: Request): boolean {
+    if (this.hasHeaderCredentials(req)) return false;
+    const cookies = req.cookies as Record<string, string | undefined>;
+    return AUTH_COOKIES.some((name) => Boolean(cookies[name]));
+  }
+
+  private hasHeaderCredentials(req: Request): boolean {
+    const [scheme, value] = (req.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && value) return true;
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey.length > 0;
+  }
+
+  private tokensMatch(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
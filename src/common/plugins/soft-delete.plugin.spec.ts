@@ -0,0 +1,46 @@
+import { Mongoose, Schema } from 'mongoose';
+import { softDeletePlugin } from './soft-delete.plugin';
+
+describe('softDeletePlugin', () => {
+  // Unconnected and unbuffered, so queries run their hooks and then fail
+  // instead of waiting for a server.
+  const mongoose = new Mongoose();
+  mongoose.set('bufferCommands', false);
+  const schema = new Schema({ title: String });
+  schema.plugin(softDeletePlugin);
+  const Thing = mongoose.model('Thing', schema);
+
+  it('adds the deletedAt path', () => {
+    expect(new Thing({ title: 'a' }).get('deletedAt')).toBeNull();
+  });
+
+  it('hides deleted documents from queries', async () => {
+    const query = Thing.find({ title: 'a' });
+    await query.exec().catch(() => undefined);
+
+    expect(query.getFilter()).toEqual({ title: 'a', deletedAt: null });
+  });
+
+  it('leaves filters that ask about deletedAt alone', async () => {
+    const query = Thing.find({ deletedAt: { $ne: null } });
+    await query.exec().catch(() => undefined);
+
+    expect(query.getFilter()).toEqual({ deletedAt: { $ne: null } });
+  });
+
+  it('includes deleted documents with the withDeleted option', async () => {
+    const query = Thing.countDocuments({ title: 'a' }).setOptions({
+      withDeleted: true,
+    });
+    await query.exec().catch(() => undefined);
+
+    expect(query.getFilter()).toEqual({ title: 'a' });
+  });
+
+  it('hides deleted documents from aggregations', async () => {
+    const aggregate = Thing.aggregate([{ $match: { title: 'a' } }]);
+    await aggregate.exec().catch(() => undefined);
+
+    expect(aggregate.pipeline()[0]).toEqual({ $match: { deletedAt: null } });
+  });
+});
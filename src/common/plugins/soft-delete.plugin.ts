@@ -0,0 +1,44 @@
+import { Aggregate, Query, Schema } from 'mongoose';
+
+export const DELETED_FIELD = 'deletedAt';
+
+const HIDDEN_QUERIES = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+] as const;
+
+/**
+ * Hides soft-deleted documents (`deletedAt` set) from every query and
+ * aggregation. A query sees them only when its filter mentions `deletedAt`
+ * itself (e.g. the trash) or when it runs with the `withDeleted` option.
+ */
+export function softDeletePlugin(schema: Schema): void {
+  if (!schema.path(DELETED_FIELD)) {
+    schema.add({ [DELETED_FIELD]: { type: Date, default: null, index: true } });
+  }
+
+  schema.pre(
+    [...HIDDEN_QUERIES],
+    { document: false, query: true },
+    function (this: Query<unknown, unknown>) {
+      if (this.getOptions().withDeleted) return;
+      if (DELETED_FIELD in this.getFilter()) return;
+      this.where({ [DELETED_FIELD]: null });
+    },
+  );
+
+  schema.pre('aggregate', function (this: Aggregate<unknown>) {
+    if (this.options.withDeleted) return;
+    this.pipeline().unshift({ $match: { [DELETED_FIELD]: null } });
+  });
+}
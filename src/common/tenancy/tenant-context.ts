@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface TenantContext {
+  organizationId: string;
+  /** The caller's role in the organization; null for public requests. */
+  role: string | null;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+/** Runs `fn` (and everything it awaits) inside the given organization. */
+export function runInTenant<T>(context: TenantContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getTenant(): TenantContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Throws when called outside runInTenant. Tenant-scoped models call this on
+ * every operation, so forgetting to set the organization fails closed.
+ */
+export function requireTenant(): TenantContext {
+  const context = storage.getStore();
+  if (!context) {
+    throw new Error('Tenant-scoped data accessed outside a tenant context');
+  }
+  return context;
+}
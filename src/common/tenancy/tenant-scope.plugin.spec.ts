@@ -0,0 +1,72 @@
+import { Mongoose, Schema, Types } from 'mongoose';
+import { tenantScopePlugin } from './tenant-scope.plugin';
+import { runInTenant } from './tenant-context';
+
+describe('tenantScopePlugin', () => {
+  const organizationId = new Types.ObjectId().toString();
+  const tenant = { organizationId, role: 'member' };
+
+  // Unconnected and unbuffered, so queries run their hooks and then fail
+  // instead of waiting for a server.
+  const mongoose = new Mongoose();
+  mongoose.set('bufferCommands', false);
+  const schema = new Schema({ title: String });
+  schema.plugin(tenantScopePlugin);
+  const Thing = mongoose.model('Thing', schema);
+
+  it('adds the organization to every query filter', async () => {
+    const query = Thing.find({ title: 'a' });
+    await runInTenant(tenant, () => query.exec()).catch(() => undefined);
+
+    expect(query.getFilter()).toEqual({
+      title: 'a',
+      organization: new Types.ObjectId(organizationId),
+    });
+  });
+
+  it('fails closed outside a tenant context', async () => {
+    await expect(Thing.findOne({ title: 'a' }).exec()).rejects.toThrow(
+      'outside a tenant context',
+    );
+  });
+
+  it('strips organization changes from updates', async () => {
+    const other = new Types.ObjectId();
+    const query = Thing.updateOne(
+      { title: 'a' },
+      { $set: { title: 'b', organization: other } },
+    );
+    await runInTenant(tenant, () => query.exec()).catch(() => undefined);
+
+    expect(query.getUpdate()).toEqual({ $set: { title: 'b' } });
+  });
+
+  it('stamps new documents with the active organization', async () => {
+    const thing = new Thing({ title: 'a' });
+    await runInTenant(tenant, () => thing.validate());
+
+    expect(thing.get('organization')).toEqual(
+      new Types.ObjectId(organizationId),
+    );
+  });
+
+  it('rejects documents from another organization', async () => {
+    const thing = new Thing({
+      title: 'a',
+      organization: new Types.ObjectId(),
+    });
+
+    await expect(runInTenant(tenant, () => thing.validate())).rejects.toThrow(
+      'another organization',
+    );
+  });
+
+  it('scopes aggregations', async () => {
+    const aggregate = Thing.aggregate([{ $match: { title: 'a' } }]);
+    await runInTenant(tenant, () => aggregate.exec()).catch(() => undefined);
+
+    expect(aggregate.pipeline()[0]).toEqual({
+      $match: { organization: new Types.ObjectId(organizationId) },
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { Aggregate, Query, Schema, Types } from 'mongoose';
+import { requireTenant } from './tenant-context';
+
+export const TENANT_FIELD = 'organization';
+
+const SCOPED_QUERIES = [
+  'countDocuments',
+  'deleteMany',
+  'deleteOne',
+  'distinct',
+  'find',
+  'findOne',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+] as const;
+
+const UPDATE_QUERIES = [
+  'findOneAndReplace',
+  'findOneAndUpdate',
+  'replaceOne',
+  'updateMany',
+  'updateOne',
+] as const;
+
+function currentOrganization(): Types.ObjectId {
+  return new Types.ObjectId(requireTenant().organizationId);
+}
+
+/**
+ * Confines a schema to the active organization (see tenant-context). Every
+ * query is filtered by it, new documents are stamped with it, and no update
+ * can move a document to another organization. Used outside a tenant
+ * context, the model throws instead of reading across organizations.
+ */
+export function tenantScopePlugin(schema: Schema): void {
+  if (!schema.path(TENANT_FIELD)) {
+    schema.add({
+      [TENANT_FIELD]: {
+        type: Schema.Types.ObjectId,
+        ref: 'Organization',
+        required: true,
+        index: true,
+      },
+    });
+  }
+
+  schema.pre(
+    [...SCOPED_QUERIES],
+    { document: false, query: true },
+    function (this: Query<unknown, unknown>) {
+      this.where({ [TENANT_FIELD]: currentOrganization() });
+    },
+  );
+
+  schema.pre(
+    [...UPDATE_QUERIES],
+    { document: false, query: true },
+    function (this: Query<unknown, unknown>) {
+      const update = this.getUpdate() as Record<string, unknown> | null;
+      if (!update) return;
+      delete update[TENANT_FIELD];
+      for (const operator of ['$set', '$setOnInsert', '$unset']) {
+        const fields = update[operator] as Record<string, unknown> | undefined;
+        if (fields) delete fields[TENANT_FIELD];
+      }
+    },
+  );
+
+  schema.pre('estimatedDocumentCount', function () {
+    throw new Error(
+      'estimatedDocumentCount cannot be scoped to a tenant; use countDocuments',
+    );
+  });
+
+  schema.pre('aggregate', function (this: Aggregate<unknown>) {
+    this.pipeline().unshift({
+      $match: { [TENANT_FIELD]: currentOrganization() },
+    });
+  });
+
+  schema.pre('validate', function () {
+    const organization = currentOrganization();
+    const current = this.get(TENANT_FIELD) as Types.ObjectId | null;
+    if (!current) {
+      this.set(TENANT_FIELD, organization);
+    } else if (!current.equals(organization)) {
+      throw new Error('Document belongs to another organization');
+    }
+  });
+
+  schema.pre('insertMany', function (docs: unknown) {
+    const organization = currentOrganization();
+    for (const doc of (Array.isArray(docs) ? docs : [docs]) as Record<
+      string,
+      unknown
+    >[]) {
+      doc[TENANT_FIELD] = organization;
+    }
+  });
+
+  schema.pre('bulkWrite', function () {
+    throw new Error('bulkWrite is not supported on tenant-scoped models');
+  });
+}
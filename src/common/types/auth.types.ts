@@ -1,13 +1,64 @@
-import { UserRole } from "src/modules/users/schemas/user.schema";
+import { ApiKeyScope } from 'src/modules/api-keys/schemas/api-key.schema';
 
 export interface JwtPayload {
   sub: string;
   email: string;
-  role: UserRole;
+  role: string;
+  /** Id of the login session, which is also the refresh token family. */
+  sid: string;
+  /** Whether the session was established with a second factor. */
+  mfa: boolean;
+  /** Access and refresh tokens share signing keys, so each names its use. */
+  typ: 'access' | 'refresh';
+  /**
+   * Unique id of a refresh or impersonation token; absent on other access
+   * tokens.
+   */
+  jti?: string;
+  /** Actor claim (RFC 8693): the admin behind an impersonation token. */
+  act?: { sub: string; sid: string };
+  /** Active organization, chosen via /auth/switch-organization. */
+  org?: string;
+}
+
+/**
+ * Short-lived tokens that authorise a single action (e.g. verifying an email
+ * address). Signed with their own secret so they can never pass as a session.
+ */
+export interface ActionTokenPayload {
+  sub: string;
+  email: string;
+  purpose: 'email-verification' | 'two-factor-challenge';
+}
+
+/** Issued by a password login that still has to pass the TOTP step. */
+export interface TwoFactorChallengePayload extends ActionTokenPayload {
+  purpose: 'two-factor-challenge';
+  deviceLabel: string | null;
 }
 
 export interface JwtUser {
   userId: string;
   email: string;
-  role: UserRole;
+  role: string;
+  /** Null for API key requests, which are not tied to a login session. */
+  sessionId: string | null;
+  twoFactorVerified: boolean;
+  authMethod: 'session' | 'api-key';
+  /** Granted scopes; only set for API key requests. */
+  scopes?: ApiKeyScope[];
+  /** The admin acting as this user; only set for impersonation tokens. */
+  actor?: { userId: string; sessionId: string; tokenId: string };
+  /** Active organization from the token; `X-Org-Id` may override it. */
+  organizationId?: string;
+  /** jti for the next refresh token; only set on refresh requests. */
+  refreshTokenId?: string;
+}
+
+/** A user authenticated through a login session (cookie or refresh token). */
+export type SessionUser = JwtUser & { sessionId: string };
+
+export interface ClientDetails {
+  userAgent: string | null;
+  ip: string | null;
 }
@@ -0,0 +1,5 @@
+/** Sort direction accepted by the listing endpoints. */
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
@@ -0,0 +1,40 @@
+import { escapeHtml, highlight } from './highlight.util';
+
+describe('highlight', () => {
+  it('marks every match case-insensitively', () => {
+    expect(highlight('Nest and nest apps', ['nest'])).toBe(
+      '<mark>Nest</mark> and <mark>nest</mark> apps',
+    );
+  });
+
+  it('escapes HTML around and inside matches', () => {
+    expect(highlight('<b>a&b</b>', ['a&b'])).toBe(
+      '&lt;b&gt;<mark>a&amp;b</mark>&lt;/b&gt;',
+    );
+  });
+
+  it('treats terms literally', () => {
+    expect(highlight('(a+)+ is a regex', ['(a+)+'])).toBe(
+      '<mark>(a+)+</mark> is a regex',
+    );
+  });
+
+  it('centres long text near the first match', () => {
+    const text = `${'x'.repeat(300)} target ${'y'.repeat(300)}`;
+    const snippet = highlight(text, ['target'], 60);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>target</mark>');
+  });
+
+  it('starts at the beginning when nothing matches', () => {
+    expect(highlight('abcdef', ['zzz'], 3)).toBe('abc…');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes quotes', () => {
+    expect(escapeHtml(`"it's"`)).toBe('&quot;it&#39;s&quot;');
+  });
+});
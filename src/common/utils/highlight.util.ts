@@ -0,0 +1,53 @@
+import { escapeRegex } from './regex.util';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Returns an HTML-safe excerpt of `text` of at most `maxLength` characters,
+ * centred near the first match, with every case-insensitive match of a term
+ * wrapped in `<mark>`. Starts at the beginning when nothing matches.
+ */
+export function highlight(
+  text: string,
+  terms: string[],
+  maxLength = 160,
+): string {
+  const words = terms.filter(Boolean);
+  const pattern = words.length
+    ? new RegExp(words.map(escapeRegex).join('|'), 'gi')
+    : null;
+
+  let start = 0;
+  if (text.length > maxLength && pattern) {
+    const first = text.search(pattern);
+    if (first > 0) {
+      const lead = Math.floor(maxLength / 3);
+      start = Math.max(0, Math.min(first - lead, text.length - maxLength));
+    }
+  }
+  const excerpt = text.slice(start, start + maxLength);
+
+  let result = '';
+  let last = 0;
+  for (const match of pattern ? excerpt.matchAll(pattern) : []) {
+    result +=
+      escapeHtml(excerpt.slice(last, match.index)) +
+      `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index + match[0].length;
+  }
+  result += escapeHtml(excerpt.slice(last));
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = start + maxLength < text.length ? '…' : '';
+  return `${prefix}${result}${suffix}`;
+}
@@ -0,0 +1,4 @@
+/** Escapes user input so it matches literally inside a RegExp / $regex. */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,20 @@
+import { slugify } from './slug.util';
+
+describe('slugify', () => {
+  it('lowercases and joins words with single dashes', () => {
+    expect(slugify('  My  NestJS -- Portfolio! ')).toBe('my-nestjs-portfolio');
+  });
+
+  it('folds accents', () => {
+    expect(slugify('Café Déjà Vu')).toBe('cafe-deja-vu');
+  });
+
+  it('caps the length without a trailing dash', () => {
+    const slug = slugify(`${'a'.repeat(79)} b`);
+    expect(slug).toBe('a'.repeat(79));
+  });
+
+  it('falls back when nothing is left', () => {
+    expect(slugify('日本語', 'project')).toBe('project');
+  });
+});
@@ -0,0 +1,17 @@
+const MAX_SLUG_LENGTH = 80;
+
+/**
+ * Turns free text into a URL slug: lowercase ASCII letters and digits
+ * separated by single dashes, accents folded ("Café Déjà" -> "cafe-deja").
+ * Returns `fallback` when nothing usable is left.
+ */
+export function slugify(text: string, fallback = 'item'): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
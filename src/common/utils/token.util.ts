@@ -0,0 +1,14 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** Random, URL-safe token suitable for one-time links sent to the user. */
+export function generateToken(bytes = 32): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+/**
+ * Tokens are high-entropy, so a fast deterministic hash is enough and lets us
+ * look the owner up by hash instead of comparing against every record.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
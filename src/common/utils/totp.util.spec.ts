@@ -0,0 +1,47 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  totpStep,
+  verifyTotp,
+} from './totp.util';
+
+// Shared secret from the RFC 6238 appendix B test vectors.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp.util', () => {
+  it('should round-trip base32', () => {
+    const buffer = Buffer.from('hello two-factor');
+    expect(base32Decode(base32Encode(buffer))).toEqual(buffer);
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 vector at T=%i', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, totpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('should accept codes from adjacent steps and report their step', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, totpStep(now) - 1);
+
+    expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(totpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, 0, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri('Nest LMS', 'a@example.com', 'ABC');
+    expect(uri).toBe(
+      'otpauth://totp/Nest%20LMS%3Aa%40example.com?secret=ABC&issuer=Nest+LMS&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { registerDecorator, ValidationOptions } from 'class-validator';
+
+/**
+ * Requires the value to be greater than or equal to another property of the
+ * same object, e.g. the upper end of a range. Skipped while either side is
+ * missing; works for numbers, dates and ISO date strings.
+ */
+export function IsAtLeast(property: string, options?: ValidationOptions) {
+  return (target: object, propertyName: string): void => {
+    registerDecorator({
+      name: 'isAtLeast',
+      target: target.constructor,
+      propertyName,
+      constraints: [property],
+      options: {
+        message: `${propertyName} must not be less than ${property}`,
+        ...options,
+      },
+      validator: {
+        validate(value: unknown, args): boolean {
+          const lower = (args?.object as Record<string, unknown>)[property];
+          if (value == null || lower == null) return true;
+          const upper = value as number | string | Date;
+          return upper >= (lower as typeof upper);
+        },
+      },
+    });
+  };
+}
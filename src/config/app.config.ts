@@ -3,6 +3,21 @@ import { registerAs } from '@nestjs/config';
 export interface AppConfig {
   port: number;
   env: string;
+  clientUrl: string;
+  /** Days a deleted project stays restorable before it is purged. */
+  projectTrashRetentionDays: number;
+  /**
+   * Express `trust proxy` setting: false, true, a hop count or a list of
+   * proxy addresses. Needed behind a load balancer so `request.ip` (used by
+   * the per-IP login limit and audit entries) is the client, not the proxy.
+   */
+  trustProxy: boolean | number | string;
+}
+
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
 }
 
 export default registerAs<AppConfig>(
@@ -10,5 +25,9 @@ export default registerAs<AppConfig>(
   (): AppConfig => ({
     port: Number(process.env.PORT) || 5000,
     env: process.env.NODE_ENV || 'development',
+    clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
+    projectTrashRetentionDays:
+      Number(process.env.PROJECT_TRASH_RETENTION_DAYS) || 30,
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
   }),
 );
@@ -0,0 +1,48 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AuthConfig {
+  passwordResetExpiresIn: number;
+  emailVerificationExpiresIn: number;
+  magicLinkExpiresIn: number;
+  twoFactorIssuer: string;
+  twoFactorChallengeExpiresIn: number;
+  enforceAdminTwoFactor: boolean;
+  maxFailedLogins: number;
+  lockoutDuration: number;
+  maxFailedLoginsPerIp: number;
+  failedLoginWindow: number;
+  loginDelayBaseMs: number;
+  loginDelayMaxMs: number;
+  permissionsCacheTtl: number;
+  impersonationExpiresIn: number;
+  refreshReuseGrace: number;
+  accountDeletionGraceDays: number;
+  invitationExpiresIn: number;
+}
+
+export default registerAs<AuthConfig>(
+  'auth',
+  (): AuthConfig => ({
+    passwordResetExpiresIn:
+      Number(process.env.PASSWORD_RESET_EXPIRES_IN) || 3600,
+    emailVerificationExpiresIn:
+      Number(process.env.EMAIL_VERIFICATION_EXPIRES_IN) || 86400,
+    magicLinkExpiresIn: Number(process.env.MAGIC_LINK_EXPIRES_IN) || 900,
+    twoFactorIssuer: process.env.TWO_FACTOR_ISSUER ?? 'Nest LMS',
+    twoFactorChallengeExpiresIn:
+      Number(process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN) || 300,
+    enforceAdminTwoFactor: process.env.ENFORCE_ADMIN_2FA === 'true',
+    maxFailedLogins: Number(process.env.MAX_FAILED_LOGINS) || 5,
+    lockoutDuration: Number(process.env.LOCKOUT_DURATION) || 900,
+    maxFailedLoginsPerIp: Number(process.env.MAX_FAILED_LOGINS_PER_IP) || 20,
+    failedLoginWindow: Number(process.env.FAILED_LOGIN_WINDOW) || 900,
+    loginDelayBaseMs: Number(process.env.LOGIN_DELAY_BASE_MS) || 250,
+    loginDelayMaxMs: Number(process.env.LOGIN_DELAY_MAX_MS) || 5000,
+    permissionsCacheTtl: Number(process.env.PERMISSIONS_CACHE_TTL) || 60,
+    impersonationExpiresIn: Number(process.env.IMPERSONATION_EXPIRES_IN) || 900,
+    refreshReuseGrace: Number(process.env.REFRESH_REUSE_GRACE ?? 10),
+    accountDeletionGraceDays:
+      Number(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30,
+    invitationExpiresIn: Number(process.env.INVITATION_EXPIRES_IN) || 604800,
+  }),
+);
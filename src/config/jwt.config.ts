@@ -1,18 +1,26 @@
 import { registerAs } from '@nestjs/config';
 
 export interface JwtConfig {
-  accessSecret: string;
-  refreshSecret: string;
+  /** Directory of `<kid>.pem` files used to sign and verify session tokens. */
+  keysDir: string;
+  /** Kid of the key that signs new tokens; optional with a single private key. */
+  signingKeyId: string | undefined;
+  actionSecret: string;
   accessExpiresIn: number;
   refreshExpiresIn: number;
 }
 
-export default registerAs<JwtConfig>(
-  'jwt',
-  (): JwtConfig => ({
-    accessSecret: process.env.JWT_ACCESS_SECRET ?? 'fallback-access-secret',
-    refreshSecret: process.env.JWT_REFRESH_SECRET ?? 'fallback-refresh-secret',
+export default registerAs<JwtConfig>('jwt', (): JwtConfig => {
+  const actionSecret = process.env.JWT_ACTION_SECRET;
+  if (!actionSecret) {
+    throw new Error('JWT_ACTION_SECRET must be set');
+  }
+
+  return {
+    keysDir: process.env.JWT_KEYS_DIR ?? 'keys',
+    signingKeyId: process.env.JWT_SIGNING_KEY_ID || undefined,
+    actionSecret,
     accessExpiresIn: Number(process.env.JWT_ACCESS_EXPIRES_IN) || 900,
     refreshExpiresIn: Number(process.env.JWT_REFRESH_EXPIRES_IN) || 604800,
-  }),
-);
+  };
+});
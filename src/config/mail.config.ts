@@ -0,0 +1,42 @@
+import { registerAs } from '@nestjs/config';
+
+export type MailDriver = 'smtp' | 'log';
+
+export interface MailConfig {
+  driver: MailDriver;
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    pass: string;
+  };
+  logDir: string | null;
+}
+
+const MAIL_DRIVERS: MailDriver[] = ['smtp', 'log'];
+
+export default registerAs<MailConfig>('mail', (): MailConfig => {
+  const driver = process.env.MAIL_DRIVER;
+  // Production must choose explicitly so mail is never dropped by accident.
+  if (!driver && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_DRIVER must be set in production');
+  }
+  if (driver && !MAIL_DRIVERS.includes(driver as MailDriver)) {
+    throw new Error(`MAIL_DRIVER must be one of: ${MAIL_DRIVERS.join(', ')}`);
+  }
+
+  return {
+    driver: (driver as MailDriver | undefined) ?? 'log',
+    from: process.env.MAIL_FROM ?? 'no-reply@localhost',
+    smtp: {
+      host: process.env.SMTP_HOST ?? 'localhost',
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER ?? '',
+      pass: process.env.SMTP_PASS ?? '',
+    },
+    logDir: process.env.MAIL_LOG_DIR ?? null,
+  };
+});
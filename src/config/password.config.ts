@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+
+export interface PasswordConfig {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  /** How many recent passwords (including the current one) may not be reused. */
+  historySize: number;
+}
+
+export default registerAs<PasswordConfig>(
+  'password',
+  (): PasswordConfig => ({
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+    requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+    requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== 'false',
+    requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+    historySize: Number(process.env.PASSWORD_HISTORY_SIZE) || 5,
+  }),
+);
@@ -6,9 +6,13 @@ import cookieParser from 'cookie-parser';
 import { ValidationPipe } from '@nestjs/common';
 import { GlobalExceptionFilter } from './common/filters/global-exception.filter';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
+import { AppConfig } from './config/app.config';
 
 async function bootstrap(): Promise<void> {
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  const configService = app.get(ConfigService);
+
+  app.set('trust proxy', configService.get<AppConfig>('app')!.trustProxy);
 
   app.enableCors({
     origin: ['http://localhost:3000', 'http://localhost:3001'],
@@ -28,7 +32,6 @@ async function bootstrap(): Promise<void> {
   app.useGlobalFilters(new GlobalExceptionFilter());
   app.useGlobalInterceptors(new ResponseInterceptor());
 
-  const configService = app.get(ConfigService);
   const port = configService.get<number>('app.port') || 5000;
   await app.listen(port);
   console.log(`Server running on http://localhost:${port}`);
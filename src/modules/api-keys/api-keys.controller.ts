@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreateApiKeyResponse, SafeApiKey } from './types/api-key.types';
+import { ApiResponse } from '../../common/types/global';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { JwtUser } from '../../common/types/auth.types';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+// None of these routes declare scopes, so API keys cannot manage API keys.
+@Controller('auth/api-keys')
+@DisallowImpersonation()
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: JwtUser,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<ApiResponse<CreateApiKeyResponse>> {
+    const data = await this.apiKeysService.create(user.userId, createApiKeyDto);
+    return ApiResponse.success(
+      data,
+      'API key created, copy it now as it will not be shown again',
+    );
+  }
+
+  @Get()
+  async findAll(
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<SafeApiKey[]>> {
+    const data = await this.apiKeysService.findForUser(user.userId);
+    return ApiResponse.success(data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<null>> {
+    await this.apiKeysService.revoke(user.userId, id);
+    return ApiResponse.success(null, 'API key revoked');
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKey, ApiKeySchema } from './schemas/api-key.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([{ name: ApiKey.name, schema: ApiKeySchema }]),
+  ],
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,63 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { API_KEY_PREFIX, ApiKeysService } from './api-keys.service';
+import { ApiKey, ApiKeyScope } from './schemas/api-key.schema';
+import { hashToken } from '../../common/utils/token.util';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+
+  const mockApiKeyModel = {
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        {
+          provide: getModelToken(ApiKey.name),
+          useValue: mockApiKeyModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should return the key once and store only its hash', async () => {
+      mockApiKeyModel.create.mockImplementation(
+        (doc: Record<string, unknown>) => ({ id: 'key-1', ...doc }),
+      );
+
+      const { key, apiKey } = await service.create('user-1', {
+        name: 'CI',
+        scopes: [ApiKeyScope.PROJECTS_WRITE],
+      });
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(mockApiKeyModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ hashedKey: hashToken(key) }),
+      );
+      expect(apiKey).not.toHaveProperty('hashedKey');
+      expect(key.startsWith(apiKey.prefix)).toBe(true);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.create('user-1', {
+          name: 'CI',
+          scopes: [ApiKeyScope.PROJECTS_WRITE],
+          expiresAt: '2000-01-01T00:00:00.000Z',
+        }),
+      ).rejects.toThrow('expiresAt must be in the future');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import { ApiKey, ApiKeyDocument } from './schemas/api-key.schema';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { CreateApiKeyResponse, SafeApiKey } from './types/api-key.types';
+import { generateToken, hashToken } from '../../common/utils/token.util';
+
+// Lets the auth layer (and secret scanners) recognise our keys at a glance.
+export const API_KEY_PREFIX = 'nlk_';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectModel(ApiKey.name)
+    private readonly apiKeyModel: Model<ApiKeyDocument>,
+  ) {}
+
+  async create(
+    userId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreateApiKeyResponse> {
+    const expiresAt = createApiKeyDto.expiresAt
+      ? new Date(createApiKeyDto.expiresAt)
+      : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+    const apiKey = await this.apiKeyModel.create({
+      user: userId,
+      name: createApiKeyDto.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+      hashedKey: hashToken(key),
+      scopes: createApiKeyDto.scopes,
+      expiresAt,
+    });
+
+    return { key, apiKey: this.toSafeApiKey(apiKey) };
+  }
+
+  async findForUser(userId: string): Promise<SafeApiKey[]> {
+    const apiKeys = await this.apiKeyModel
+      .find({ user: userId })
+      .sort({ createdAt: -1 })
+      .exec();
+    return apiKeys.map((apiKey) => this.toSafeApiKey(apiKey));
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = isValidObjectId(id)
+      ? await this.apiKeyModel.deleteOne({ _id: id, user: userId })
+      : { deletedCount: 0 };
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`API key #${id} not found`);
+    }
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await this.apiKeyModel.deleteMany({ user: userId });
+  }
+
+  /** Resolves a presented key to its record, or null if unknown/expired. */
+  async authenticate(key: string): Promise<ApiKeyDocument | null> {
+    const now = new Date();
+    return this.apiKeyModel
+      .findOneAndUpdate(
+        {
+          hashedKey: hashToken(key),
+          $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+        },
+        { lastUsedAt: now },
+        { new: true },
+      )
+      .exec();
+  }
+
+  private toSafeApiKey(apiKey: ApiKeyDocument): SafeApiKey {
+    return {
+      _id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
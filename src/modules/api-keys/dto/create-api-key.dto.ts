@@ -0,0 +1,28 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiKeyScope } from '../schemas/api-key.schema';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  name!: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes!: ApiKeyScope[];
+
+  // Omit for a key that never expires.
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
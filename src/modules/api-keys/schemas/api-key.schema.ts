@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type ApiKeyDocument = HydratedDocument<ApiKey>;
+
+export enum ApiKeyScope {
+  PROFILE_READ = 'profile:read',
+  PROJECTS_WRITE = 'projects:write',
+  PROJECTS_DELETE = 'projects:delete',
+}
+
+@Schema({ timestamps: true })
+export class ApiKey {
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true, index: true })
+  user!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name!: string;
+
+  // First characters of the key, kept in clear so users can recognise it.
+  @Prop({ required: true })
+  prefix!: string;
+
+  @Prop({ required: true, unique: true, select: false })
+  hashedKey!: string;
+
+  @Prop({ type: [String], enum: ApiKeyScope, default: [] })
+  scopes!: ApiKeyScope[];
+
+  @Prop({ type: Date, default: null })
+  expiresAt!: Date | null;
+
+  @Prop({ type: Date, default: null })
+  lastUsedAt!: Date | null;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
@@ -0,0 +1,17 @@
+import { ApiKeyScope } from '../schemas/api-key.schema';
+
+export interface SafeApiKey {
+  _id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyResponse {
+  /** The full key. It is not stored and cannot be retrieved again. */
+  key: string;
+  apiKey: SafeApiKey;
+}
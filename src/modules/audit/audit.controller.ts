@@ -0,0 +1,22 @@
+import { Controller, Get, HttpCode, HttpStatus, Query } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { ApiResponse } from '../../common/types/global';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../roles/schemas/role.schema';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+import { AuditLogPage } from './types/audit.types';
+
+@Controller('audit-logs')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.AUDIT_READ)
+  async findAll(
+    @Query() query: AuditLogQueryDto,
+  ): Promise<ApiResponse<AuditLogPage>> {
+    const result = await this.auditService.findAll(query);
+    return ApiResponse.success(result);
+  }
+}
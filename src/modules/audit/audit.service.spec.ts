@@ -0,0 +1,51 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { AuditService } from './audit.service';
+import { AuditEvent, AuditLog } from './schemas/audit-log.schema';
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  const mockAuditLogModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: getModelToken(AuditLog.name),
+          useValue: mockAuditLogModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should not throw when the entry cannot be written', async () => {
+    mockAuditLogModel.create.mockRejectedValue(new Error('db down'));
+
+    await expect(
+      service.record({ event: AuditEvent.REFRESH_TOKEN_REUSE }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('exports only the entries about a user, not those they acted in', async () => {
+    mockAuditLogModel.find.mockReturnValue({
+      sort: () => ({ exec: () => Promise.resolve([]) }),
+    });
+
+    await service.findForUser('user-1');
+
+    expect(mockAuditLogModel.find).toHaveBeenCalledWith({ user: 'user-1' });
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AuditLog, AuditLogDocument } from './schemas/audit-log.schema';
+import { AuditEntry, AuditLogPage, SafeAuditLog } from './types/audit.types';
+import { AuditLogQueryDto } from './dto/audit-log-query.dto';
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditLog.name)
+    private readonly auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  /**
+   * Never throws: failing to write an audit entry must not break the request
+   * that triggered it, so errors are logged instead.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.auditLogModel.create({
+        event: entry.event,
+        user: entry.userId ?? null,
+        actor: entry.actorId ?? null,
+        ip: entry.ip ?? null,
+        userAgent: entry.userAgent ?? null,
+        metadata: entry.metadata ?? {},
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit event ${entry.event}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  async findAll(query: AuditLogQueryDto): Promise<AuditLogPage> {
+    const { event, user, page = 1, limit = 20 } = query;
+
+    const filter: { event?: string; user?: string } = {};
+    if (event) filter.event = event;
+    if (user) filter.user = user;
+
+    const [logs, total] = await Promise.all([
+      this.auditLogModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.auditLogModel.countDocuments(filter),
+    ]);
+
+    return {
+      logs: logs.map((log) => this.toSafeAuditLog(log)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Everything recorded about one account; oldest first. Entries where it
+   * only acted on others are left out, as they describe other people.
+   */
+  async findForUser(userId: string): Promise<SafeAuditLog[]> {
+    const logs = await this.auditLogModel
+      .find({ user: userId })
+      .sort({ createdAt: 1 })
+      .exec();
+    return logs.map((log) => this.toSafeAuditLog(log));
+  }
+
+  private toSafeAuditLog(log: AuditLogDocument): SafeAuditLog {
+    return {
+      _id: log.id,
+      event: log.event,
+      user: log.user?.toString() ?? null,
+      actor: log.actor?.toString() ?? null,
+      ip: log.ip,
+      userAgent: log.userAgent,
+      metadata: log.metadata,
+      createdAt: log.createdAt,
+    };
+  }
+}
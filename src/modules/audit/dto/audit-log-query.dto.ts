@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { AuditEvent } from '../schemas/audit-log.schema';
+
+export class AuditLogQueryDto {
+  @IsOptional()
+  @IsEnum(AuditEvent)
+  event?: AuditEvent;
+
+  @IsOptional()
+  @IsMongoId()
+  user?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,52 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type AuditLogDocument = HydratedDocument<AuditLog>;
+
+export enum AuditEvent {
+  REFRESH_TOKEN_REUSE = 'refresh_token_reuse',
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+  PASSWORD_CHANGED = 'password_changed',
+  ROLE_CHANGED = 'role_changed',
+  USER_UPDATED = 'user_updated',
+  ACCOUNT_DEACTIVATED = 'account_deactivated',
+  ACCOUNT_REACTIVATED = 'account_reactivated',
+  ACCOUNT_DELETED = 'account_deleted',
+  DATA_EXPORTED = 'data_exported',
+  INVITATION_CREATED = 'invitation_created',
+  INVITATION_REVOKED = 'invitation_revoked',
+  INVITATION_ACCEPTED = 'invitation_accepted',
+  IMPERSONATION_STARTED = 'impersonation_started',
+  IMPERSONATION_STOPPED = 'impersonation_stopped',
+  IMPERSONATED_REQUEST = 'impersonated_request',
+}
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  @Prop({ type: String, enum: AuditEvent, required: true, index: true })
+  event!: AuditEvent;
+
+  // The account the event is about.
+  @Prop({ type: Types.ObjectId, ref: User.name, default: null, index: true })
+  user!: Types.ObjectId | null;
+
+  // Who performed the action, when it was not the account itself.
+  @Prop({ type: Types.ObjectId, ref: User.name, default: null })
+  actor!: Types.ObjectId | null;
+
+  @Prop({ type: String, default: null })
+  ip!: string | null;
+
+  @Prop({ type: String, default: null })
+  userAgent!: string | null;
+
+  @Prop({ type: Object, default: {} })
+  metadata!: Record<string, unknown>;
+
+  createdAt!: Date;
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog);
+AuditLogSchema.index({ createdAt: -1 });
@@ -0,0 +1,28 @@
+import { AuditEvent } from '../schemas/audit-log.schema';
+
+export interface AuditEntry {
+  event: AuditEvent;
+  userId?: string | null;
+  actorId?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SafeAuditLog {
+  _id: string;
+  event: AuditEvent;
+  user: string | null;
+  actor: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface AuditLogPage {
+  logs: SafeAuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -8,6 +8,9 @@ import {
   HttpCode,
   HttpStatus,
   Get,
+  Delete,
+  Param,
+  Query,
   UseInterceptors,
   UploadedFile,
   BadRequestException,
@@ -17,28 +20,49 @@ import { FileInterceptor } from '@nestjs/platform-express';
 import type { Response } from 'express';
 import { AuthService } from './auth.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
+import { AcceptInvitationDto } from '../users/dto/accept-invitation.dto';
+import { InvitationsService } from '../users/invitations.service';
+import { PasswordPolicyService } from '../users/password-policy.service';
 import { LoginDto } from '../users/dto/login.dto';
 
 import { CreateUserResponse, SafeUser } from '../users/types/user.types';
 import { ApiResponse } from 'src/common/types/global';
-import type { JwtUser } from 'src/common/types/auth.types';
+import type {
+  ClientDetails,
+  JwtUser,
+  SessionUser,
+} from 'src/common/types/auth.types';
 import { Public } from 'src/common/decorators/public.decorator';
 import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import { ClientInfo } from 'src/common/decorators/client-info.decorator';
+import { RequireScopes } from 'src/common/decorators/scopes.decorator';
+import { ApiKeyScope } from '../api-keys/schemas/api-key.schema';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { CloudinaryService } from 'src/services/cloudinary/cloudinary.service';
 import { imageMulterOptions } from 'src/config/multer.config';
-
-const ACCESS_MAX_AGE = 15 * 60 * 1000;
-const REFRESH_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
-
-function buildCookieOptions(maxAge: number) {
-  return {
-    httpOnly: true,
-    secure: process.env['NODE_ENV'] === 'production',
-    sameSite: 'strict' as const,
-    maxAge,
-  };
-}
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { SafeSession } from '../sessions/types/session.types';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { TokenDelivery } from '../users/dto/login.dto';
+import type { ImpersonationResult, TokenPair } from './auth.service';
+import {
+  buildCookieOptions,
+  LoginResponse,
+  respondWithLogin,
+  setAuthCookies,
+} from './token-delivery';
+import { RequestMagicLinkDto } from './dto/request-magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { ImpersonateDto } from './dto/impersonate.dto';
+import { SwitchOrganizationDto } from './dto/switch-organization.dto';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { DisallowImpersonation } from 'src/common/decorators/disallow-impersonation.decorator';
+import { Permission } from '../roles/schemas/role.schema';
 
 @Controller('auth')
 export class AuthController {
@@ -46,6 +70,8 @@ export class AuthController {
     private readonly authService: AuthService,
     private readonly cloudinaryServe: CloudinaryService,
     private readonly usersService: UsersService,
+    private readonly invitationsService: InvitationsService,
+    private readonly passwordPolicy: PasswordPolicyService,
   ) {}
 
   @Post('register')
@@ -62,6 +88,8 @@ export class AuthController {
     if (exist) {
       throw new BadRequestException('Email ALready Register');
     }
+    // Checked before uploading so a refused registration leaves no image.
+    this.passwordPolicy.assertAcceptable(createUserDto.password);
     let imageUrl: string | null = null;
 
     if (file) {
@@ -75,27 +103,74 @@ export class AuthController {
     return ApiResponse.success(data);
   }
 
+  @Post('accept-invitation')
+  @Public()
+  @HttpCode(HttpStatus.CREATED)
+  async acceptInvitation(
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @ClientInfo() clientInfo: ClientDetails,
+  ): Promise<ApiResponse<CreateUserResponse>> {
+    const data = await this.invitationsService.accept(
+      acceptInvitationDto,
+      clientInfo,
+    );
+    return ApiResponse.success(data, 'Account created, you can now sign in');
+  }
+
   @Post('login')
   @Public()
   @HttpCode(HttpStatus.OK)
   async login(
     @Body() loginDto: LoginDto,
+    @ClientInfo() clientInfo: ClientDetails,
     @Res({ passthrough: true }) res: Response,
-  ): Promise<ApiResponse<{ user: SafeUser }>> {
-    const result = await this.authService.login(loginDto);
+  ): Promise<ApiResponse<LoginResponse>> {
+    const result = await this.authService.login(loginDto, clientInfo);
+    return respondWithLogin(res, result, loginDto.tokenDelivery);
+  }
 
-    res.cookie(
-      'accessToken',
-      result.accessToken,
-      buildCookieOptions(ACCESS_MAX_AGE),
+  @Post('2fa/verify')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<LoginResponse>> {
+    const result = await this.authService.verifyTwoFactorLogin(
+      verifyTwoFactorDto.challengeToken,
+      verifyTwoFactorDto.code,
+      clientInfo,
     );
-    res.cookie(
-      'refreshToken',
-      result.refreshToken,
-      buildCookieOptions(REFRESH_MAX_AGE),
+    return respondWithLogin(res, result, verifyTwoFactorDto.tokenDelivery);
+  }
+
+  @Post('magic-link')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async requestMagicLink(
+    @Body() requestMagicLinkDto: RequestMagicLinkDto,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.requestMagicLink(requestMagicLinkDto.email);
+    // Same answer whether or not the account exists.
+    return ApiResponse.success(
+      null,
+      'If an account exists for this email, a sign-in link has been sent',
     );
+  }
 
-    return ApiResponse.success({ user: result.user });
+  @Get('magic-link/verify')
+  @Public()
+  async verifyMagicLink(
+    @Query() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<LoginResponse>> {
+    const result = await this.authService.loginWithMagicLink(
+      verifyMagicLinkDto,
+      clientInfo,
+    );
+    return respondWithLogin(res, result, verifyMagicLinkDto.tokenDelivery);
   }
 
   @Post('refresh')
@@ -103,40 +178,204 @@ export class AuthController {
   @UseGuards(AuthGuard('jwt-refresh'))
   @HttpCode(HttpStatus.OK)
   async refresh(
-    @CurrentUser() user: JwtUser,
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @CurrentUser() user: SessionUser,
     @Res({ passthrough: true }) res: Response,
-  ): Promise<ApiResponse<null>> {
+  ): Promise<ApiResponse<TokenPair | null>> {
     const tokens = await this.authService.refresh(user);
 
-    res.cookie(
-      'accessToken',
-      tokens.accessToken,
-      buildCookieOptions(ACCESS_MAX_AGE),
-    );
-    res.cookie(
-      'refreshToken',
-      tokens.refreshToken,
-      buildCookieOptions(REFRESH_MAX_AGE),
-    );
+    // Answer in the same transport the refresh token arrived in.
+    if (refreshTokenDto.refreshToken) {
+      return ApiResponse.success(tokens);
+    }
+
+    setAuthCookies(res, tokens);
 
     return ApiResponse.success(null);
   }
 
+  @Post('switch-organization')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async switchOrganization(
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+    @CurrentUser() user: JwtUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<TokenPair | null>> {
+    const tokens = await this.authService.switchOrganization(
+      user,
+      switchOrganizationDto.organizationId ?? null,
+    );
+
+    if (switchOrganizationDto.tokenDelivery === TokenDelivery.BODY) {
+      return ApiResponse.success(tokens, 'Organization switched');
+    }
+
+    setAuthCookies(res, tokens);
+
+    return ApiResponse.success(null, 'Organization switched');
+  }
+
   @Post('logout')
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
   async logout(
     @CurrentUser() user: JwtUser,
     @Res({ passthrough: true }) res: Response,
   ): Promise<ApiResponse<null>> {
-    await this.authService.logout(user.userId);
+    await this.authService.logout(user);
+    res.clearCookie('accessToken');
+    res.clearCookie('refreshToken');
+    return ApiResponse.success(null);
+  }
+
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async logoutAll(
+    @CurrentUser() user: JwtUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.logoutAll(user.userId);
     res.clearCookie('accessToken');
     res.clearCookie('refreshToken');
     return ApiResponse.success(null);
   }
 
+  @Get('sessions')
+  async getSessions(
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<SafeSession[]>> {
+    const sessions = await this.authService.getSessions(user);
+    return ApiResponse.success(sessions);
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async revokeSession(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.revokeSession(user.userId, id);
+    return ApiResponse.success(null, 'Session revoked');
+  }
+
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async changePassword(
+    @CurrentUser() user: JwtUser,
+    @Body() changePasswordDto: ChangePasswordDto,
+    @ClientInfo() clientInfo: ClientDetails,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.changePassword(user, changePasswordDto, clientInfo);
+    return ApiResponse.success(
+      null,
+      'Password changed, other devices have been signed out',
+    );
+  }
+
+  @Post('impersonate/:userId')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USER_IMPERSONATE)
+  @DisallowImpersonation()
+  async impersonate(
+    @Param('userId') userId: string,
+    @Body() impersonateDto: ImpersonateDto,
+    @CurrentUser() user: JwtUser,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<
+    ApiResponse<Omit<ImpersonationResult, 'accessToken'> | ImpersonationResult>
+  > {
+    const result = await this.authService.impersonate(user, userId, clientInfo);
+
+    if (impersonateDto.tokenDelivery === TokenDelivery.BODY) {
+      return ApiResponse.success(result, 'Impersonation started');
+    }
+
+    // Only the access cookie is swapped; the admin's own refresh cookie stays
+    // so they can refresh back into their session afterwards.
+    res.cookie(
+      'accessToken',
+      result.accessToken,
+      buildCookieOptions(result.expiresAt.getTime() - Date.now()),
+    );
+    return ApiResponse.success(
+      { user: result.user, expiresAt: result.expiresAt },
+      'Impersonation started',
+    );
+  }
+
+  @Post('stop-impersonation')
+  @HttpCode(HttpStatus.OK)
+  async stopImpersonation(
+    @CurrentUser() user: JwtUser,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.stopImpersonation(user, clientInfo);
+    res.clearCookie('accessToken');
+    return ApiResponse.success(
+      null,
+      'Impersonation ended, refresh to resume your own session',
+    );
+  }
+
+  @Post('verify-email')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+    return ApiResponse.success(null, 'Email address verified');
+  }
+
+  @Post('resend-verification')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.resendVerification(resendVerificationDto.email);
+    return ApiResponse.success(
+      null,
+      'If that email needs verification, a new link has been sent',
+    );
+  }
+
+  @Post('forgot-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.forgotPassword(forgotPasswordDto.email);
+    return ApiResponse.success(
+      null,
+      'If that email is registered, a reset link has been sent',
+    );
+  }
+
+  @Post('reset-password')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<ApiResponse<null>> {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+    return ApiResponse.success(null, 'Password has been reset');
+  }
+
   @Get('me')
   @UseGuards(JwtAuthGuard)
+  @RequireScopes(ApiKeyScope.PROFILE_READ)
   async me(
     @CurrentUser() user: JwtUser,
   ): Promise<ApiResponse<SafeUser | null>> {
@@ -1,24 +1,58 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
 import { PassportModule } from '@nestjs/passport';
 import { MulterModule } from '@nestjs/platform-express';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { UsersModule } from '../users/users.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { AuditModule } from '../audit/audit.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { RolesModule } from '../roles/roles.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { RefreshStrategy } from './strategies/refresh.strategy';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { LoginThrottleService } from './login-throttle.service';
+import { JwtKeysService } from './jwt-keys.service';
+import { JwksController } from './jwks.controller';
+import {
+  LoginFailure,
+  LoginFailureSchema,
+} from './schemas/login-failure.schema';
 import { CloudinaryModule } from 'src/services/cloudinary/cloudinary.module';
+import { MailerModule } from 'src/services/mailer/mailer.module';
 
 @Module({
   imports: [
-    UsersModule,
+    forwardRef(() => UsersModule),
+    SessionsModule,
+    AuditModule,
+    ApiKeysModule,
+    RolesModule,
+    OrganizationsModule,
     CloudinaryModule,
+    MailerModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.register({}),
+    MongooseModule.forFeature([
+      { name: LoginFailure.name, schema: LoginFailureSchema },
+    ]),
     MulterModule.register({ dest: './uploads/avatars' }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, RefreshStrategy],
+  controllers: [AuthController, TwoFactorController, JwksController],
+  providers: [
+    AuthService,
+    TwoFactorService,
+    LoginThrottleService,
+    JwtKeysService,
+    JwtStrategy,
+    RefreshStrategy,
+    ApiKeyStrategy,
+  ],
   exports: [AuthService],
 })
 export class AuthModule {}
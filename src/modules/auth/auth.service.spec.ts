@@ -1,19 +1,160 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
+import * as bcrypt from 'bcrypt';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { JwtKeysService } from './jwt-keys.service';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { Permission } from '../roles/schemas/role.schema';
+import { JwtUser } from '../../common/types/auth.types';
+import { PasswordPolicyService } from '../users/password-policy.service';
+import { AccountDeactivatedException } from '../../common/exceptions/account-deactivated.exception';
+import { WeakPasswordException } from '../../common/exceptions/weak-password.exception';
+import { EmailNotVerifiedException } from '../../common/exceptions/email-not-verified.exception';
+import { hashToken } from '../../common/utils/token.util';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+jest.mock('bcrypt', () => ({ compare: jest.fn() }));
 
 describe('AuthService', () => {
   let service: AuthService;
+  const compare = bcrypt.compare as unknown as jest.Mock<
+    Promise<boolean>,
+    [string, string]
+  >;
+
+  const mockUsersService = {
+    findSafeById: jest.fn(),
+    findById: jest.fn(),
+    findByEmail: jest.fn(),
+    changePassword: jest.fn(),
+    setMagicLinkToken: jest.fn(),
+    consumeMagicLinkToken: jest.fn(),
+    findByPasswordResetToken: jest.fn(),
+    consumePasswordResetToken: jest.fn(),
+    resetPassword: jest.fn(),
+    markEmailVerified: jest.fn(),
+    setPasswordResetToken: jest.fn(),
+  };
+
+  const mockPasswordPolicy = {
+    assertAcceptable: jest.fn(),
+    assertNotReused: jest.fn(),
+  };
+
+  const mockMailerService = {
+    sendMagicLink: jest.fn(),
+    sendEmailVerification: jest.fn(),
+    sendPasswordReset: jest.fn(),
+  };
+
+  const mockJwtService = {
+    signAsync: jest.fn().mockResolvedValue('impersonation-token'),
+    verifyAsync: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({
+      impersonationExpiresIn: 900,
+      magicLinkExpiresIn: 900,
+      twoFactorChallengeExpiresIn: 300,
+      emailVerificationExpiresIn: 86400,
+      passwordResetExpiresIn: 3600,
+      actionSecret: 'action-secret',
+      clientUrl: 'http://localhost:3000',
+    }),
+  };
+
+  const mockJwtKeysService = {
+    getSigningKey: jest.fn().mockReturnValue({
+      kid: 'k1',
+      algorithm: 'RS256',
+      privateKey: 'pem',
+    }),
+  };
+
+  const mockRolesService = {
+    getPermissions: jest.fn(),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const mockTwoFactorService = {
+    verify: jest.fn(),
+  };
+
+  const mockLoginThrottle = {
+    assertIpAllowed: jest.fn(),
+    isLocked: jest.fn(),
+    registerFailure: jest.fn(),
+    registerSuccess: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    create: jest.fn(),
+    extend: jest.fn(),
+    rotate: jest.fn(),
+    startImpersonation: jest.fn(),
+    revokeAll: jest.fn(),
+    revokeOthers: jest.fn(),
+    endImpersonation: jest.fn(),
+  };
+
+  const mockOrganizationsService = {
+    assertMember: jest.fn(),
+    findMembership: jest.fn(),
+  };
+
+  const admin: JwtUser = {
+    userId: 'admin-id',
+    email: 'admin@example.com',
+    role: 'admin',
+    sessionId: 'admin-session',
+    twoFactorVerified: true,
+    authMethod: 'session',
+  };
+
+  const target = {
+    _id: 'user-id',
+    email: 'user@example.com',
+    role: 'user',
+  };
+
+  const clientInfo = { ip: '127.0.0.1', userAgent: 'jest' };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
-        { provide: UsersService, useValue: {} },
-        { provide: JwtService, useValue: {} },
-        { provide: ConfigService, useValue: {} },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: SessionsService, useValue: mockSessionsService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: MailerService, useValue: mockMailerService },
+        { provide: TwoFactorService, useValue: mockTwoFactorService },
+        { provide: LoginThrottleService, useValue: mockLoginThrottle },
+        { provide: JwtKeysService, useValue: mockJwtKeysService },
+        { provide: RolesService, useValue: mockRolesService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: PasswordPolicyService, useValue: mockPasswordPolicy },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
       ],
     }).compile();
 
@@ -23,4 +164,752 @@ describe('AuthService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('login', () => {
+    const account = {
+      id: 'user-id',
+      email: 'user@example.com',
+      password: 'stored-hash',
+      role: 'user',
+      isActive: true,
+      emailVerified: true,
+      twoFactorEnabled: false,
+    };
+    const credentials = { email: 'user@example.com', password: 'secret' };
+
+    const failure = (promise: Promise<unknown>) =>
+      promise.then(
+        () => null,
+        (error: UnauthorizedException) => [error.getStatus(), error.message],
+      );
+
+    beforeEach(() => {
+      mockLoginThrottle.isLocked.mockReturnValue(false);
+    });
+
+    it('compares against a dummy hash when the account is unknown', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      compare.mockResolvedValueOnce(false);
+
+      await expect(service.login(credentials, clientInfo)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(compare).toHaveBeenCalledWith(
+        'secret',
+        expect.stringMatching(/^\$2b\$12\$/),
+      );
+      expect(mockLoginThrottle.registerFailure).toHaveBeenCalledWith(
+        '127.0.0.1',
+        null,
+        'jest',
+      );
+    });
+
+    it('answers a locked account exactly like a wrong password', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(account);
+      compare.mockResolvedValueOnce(false);
+      const wrongPassword = await failure(
+        service.login(credentials, clientInfo),
+      );
+
+      mockLoginThrottle.isLocked.mockReturnValue(true);
+      compare.mockResolvedValueOnce(true);
+      const locked = await failure(service.login(credentials, clientInfo));
+
+      expect(locked).toEqual(wrongPassword);
+      expect(locked).toEqual([401, 'Invalid credentials']);
+      // The locked account's real hash is never compared.
+      expect(compare).toHaveBeenLastCalledWith(
+        'secret',
+        expect.not.stringMatching('stored-hash'),
+      );
+      expect(mockLoginThrottle.registerSuccess).not.toHaveBeenCalled();
+    });
+
+    it('reports an unverified email separately, after the password', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        ...account,
+        emailVerified: false,
+      });
+      compare.mockResolvedValueOnce(true);
+
+      await expect(service.login(credentials, clientInfo)).rejects.toThrow(
+        EmailNotVerifiedException,
+      );
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('does not reveal an unverified email to a wrong password', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        ...account,
+        emailVerified: false,
+      });
+      compare.mockResolvedValueOnce(false);
+
+      await expect(
+        failure(service.login(credentials, clientInfo)),
+      ).resolves.toEqual([401, 'Invalid credentials']);
+    });
+  });
+
+  describe('two-factor login', () => {
+    const account = {
+      id: 'user-id',
+      email: 'user@example.com',
+      password: 'stored-hash',
+      role: 'user',
+      isActive: true,
+      emailVerified: true,
+      twoFactorEnabled: true,
+    };
+    const challenge = {
+      sub: 'user-id',
+      email: 'user@example.com',
+      purpose: 'two-factor-challenge',
+      deviceLabel: 'Laptop',
+    };
+
+    beforeEach(() => {
+      mockLoginThrottle.isLocked.mockReturnValue(false);
+      mockUsersService.findById.mockResolvedValue(account);
+    });
+
+    it('answers a correct password with a short-lived challenge only', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(account);
+      compare.mockResolvedValueOnce(true);
+      mockJwtService.signAsync.mockResolvedValueOnce('challenge-token');
+
+      const result = await service.login(
+        {
+          email: 'user@example.com',
+          password: 'secret',
+          deviceLabel: 'Laptop',
+        },
+        clientInfo,
+      );
+
+      expect(result).toEqual({
+        twoFactorRequired: true,
+        challengeToken: 'challenge-token',
+      });
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(challenge, {
+        secret: 'action-secret',
+        expiresIn: 300,
+      });
+      expect(mockSessionsService.create).not.toHaveBeenCalled();
+    });
+
+    it('starts a two-factor session for a valid code', async () => {
+      mockJwtService.verifyAsync.mockResolvedValueOnce(challenge);
+      mockTwoFactorService.verify.mockResolvedValueOnce(true);
+
+      const result = await service.verifyTwoFactorLogin(
+        'challenge-token',
+        '123456',
+        clientInfo,
+      );
+
+      expect(result.twoFactorRequired).toBe(false);
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith(
+        'challenge-token',
+        { secret: 'action-secret' },
+      );
+      expect(mockSessionsService.create).toHaveBeenCalledWith(
+        expect.anything(),
+        'user-id',
+        expect.any(String),
+        expect.any(Date),
+        expect.objectContaining({ deviceLabel: 'Laptop' }),
+      );
+    });
+
+    it('rejects expired challenges', async () => {
+      mockJwtService.verifyAsync.mockRejectedValueOnce(
+        new Error('jwt expired'),
+      );
+
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '123456', clientInfo),
+      ).rejects.toThrow('Invalid or expired challenge');
+      expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+    });
+
+    it('rejects action tokens issued for another purpose', async () => {
+      mockJwtService.verifyAsync.mockResolvedValueOnce({
+        ...challenge,
+        purpose: 'magic-link',
+      });
+
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '123456', clientInfo),
+      ).rejects.toThrow('Invalid or expired challenge');
+      expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+    });
+
+    it('refuses a replayed challenge and code, counting it as a failure', async () => {
+      mockJwtService.verifyAsync
+        .mockResolvedValueOnce(challenge)
+        .mockResolvedValueOnce(challenge);
+      // The code's time step is claimed by the first login.
+      mockTwoFactorService.verify
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await service.verifyTwoFactorLogin(
+        'challenge-token',
+        '123456',
+        clientInfo,
+      );
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '123456', clientInfo),
+      ).rejects.toThrow('Invalid code');
+
+      expect(mockSessionsService.create).toHaveBeenCalledTimes(1);
+      expect(mockLoginThrottle.registerFailure).toHaveBeenCalledWith(
+        '127.0.0.1',
+        account,
+        'jest',
+      );
+    });
+
+    it('rejects challenges for accounts locked in the meantime', async () => {
+      mockJwtService.verifyAsync.mockResolvedValueOnce(challenge);
+      mockLoginThrottle.isLocked.mockReturnValue(true);
+
+      await expect(
+        service.verifyTwoFactorLogin('challenge-token', '123456', clientInfo),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockTwoFactorService.verify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refresh', () => {
+    it('signs the successor under the jti the claim rotated to', async () => {
+      mockUsersService.findById.mockResolvedValue({
+        email: 'user@example.com',
+        role: 'user',
+        isActive: true,
+      });
+
+      await service.refresh({
+        userId: 'user-id',
+        email: 'user@example.com',
+        role: 'user',
+        sessionId: 'session-id',
+        twoFactorVerified: false,
+        authMethod: 'session',
+        refreshTokenId: 'jti-2',
+      });
+
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ typ: 'refresh', sid: 'session-id' }),
+        expect.objectContaining({ jwtid: 'jti-2' }),
+      );
+      expect(mockSessionsService.extend).toHaveBeenCalledWith(
+        'session-id',
+        expect.any(Date),
+      );
+      expect(mockSessionsService.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('impersonate', () => {
+    const targetId = '64b7f0c2a1b2c3d4e5f60718';
+
+    it('issues an access token with an act claim and audits it', async () => {
+      mockUsersService.findSafeById.mockResolvedValue(target);
+      mockSessionsService.startImpersonation.mockResolvedValue(true);
+      mockRolesService.getPermissions.mockImplementation((role: string) =>
+        Promise.resolve(
+          role === 'admin'
+            ? Object.values(Permission)
+            : [Permission.PROJECT_CREATE],
+        ),
+      );
+
+      const result = await service.impersonate(admin, targetId, clientInfo);
+
+      expect(result.accessToken).toBe('impersonation-token');
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: 'user-id',
+          typ: 'access',
+          act: { sub: 'admin-id', sid: 'admin-session' },
+        }),
+        expect.objectContaining({ keyid: 'k1', expiresIn: 900 }),
+      );
+      const [payload] = mockJwtService.signAsync.mock.calls[0] as [
+        { jti: string },
+      ];
+      expect(mockSessionsService.startImpersonation).toHaveBeenCalledWith(
+        'admin-session',
+        'admin-id',
+        payload.jti,
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: AuditEvent.IMPERSONATION_STARTED,
+          userId: 'user-id',
+          actorId: 'admin-id',
+        }),
+      );
+    });
+
+    it('refuses targets holding permissions the admin lacks', async () => {
+      mockUsersService.findSafeById.mockResolvedValue(target);
+      mockRolesService.getPermissions.mockImplementation((role: string) =>
+        Promise.resolve(
+          role === 'admin'
+            ? [Permission.USER_IMPERSONATE]
+            : [Permission.PROJECT_DELETE],
+        ),
+      );
+
+      await expect(
+        service.impersonate(admin, targetId, clientInfo),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockJwtService.signAsync).not.toHaveBeenCalled();
+    });
+
+    it('refuses once the admin session has ended', async () => {
+      mockUsersService.findSafeById.mockResolvedValue(target);
+      mockRolesService.getPermissions.mockResolvedValue([]);
+      mockSessionsService.startImpersonation.mockResolvedValue(false);
+
+      await expect(
+        service.impersonate(admin, targetId, clientInfo),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockJwtService.signAsync).not.toHaveBeenCalled();
+    });
+
+    it('refuses to impersonate yourself', async () => {
+      await expect(
+        service.impersonate(admin, admin.userId, clientInfo),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    it('stores only the hash and mails a link bound to the email', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+        isActive: true,
+      });
+
+      await service.requestMagicLink('user@example.com');
+
+      const [, tokenHash] = mockUsersService.setMagicLinkToken.mock
+        .calls[0] as [string, string, Date];
+      const [to, url] = mockMailerService.sendMagicLink.mock.calls[0] as [
+        string,
+        string,
+      ];
+      const link = new URL(url);
+      expect(to).toBe('user@example.com');
+      expect(link.searchParams.get('email')).toBe('user@example.com');
+      expect(link.searchParams.get('token')).not.toBe(tokenHash);
+    });
+
+    it('does nothing for unknown emails', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+
+      await service.requestMagicLink('nobody@example.com');
+
+      expect(mockMailerService.sendMagicLink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loginWithMagicLink', () => {
+    it('rejects unknown, used or expired links', async () => {
+      mockUsersService.consumeMagicLinkToken.mockResolvedValue(null);
+
+      await expect(
+        service.loginWithMagicLink(
+          { token: 'token', email: 'user@example.com' },
+          clientInfo,
+        ),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('rejects deactivated accounts', async () => {
+      mockUsersService.consumeMagicLinkToken.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+        isActive: false,
+      });
+
+      await expect(
+        service.loginWithMagicLink(
+          { token: 'token', email: 'user@example.com' },
+          clientInfo,
+        ),
+      ).rejects.toBeInstanceOf(AccountDeactivatedException);
+    });
+
+    it('still asks for the second factor', async () => {
+      mockUsersService.consumeMagicLinkToken.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+        isActive: true,
+        twoFactorEnabled: true,
+      });
+      mockJwtService.signAsync.mockResolvedValueOnce('challenge-token');
+
+      const result = await service.loginWithMagicLink(
+        { token: 'token', email: 'user@example.com' },
+        clientInfo,
+      );
+
+      expect(result).toEqual({
+        twoFactorRequired: true,
+        challengeToken: 'challenge-token',
+      });
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('marks the address from the token as verified', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-id',
+        email: 'user@example.com',
+        purpose: 'email-verification',
+      });
+      mockUsersService.markEmailVerified.mockResolvedValue(true);
+
+      await service.verifyEmail('verify-token');
+
+      expect(mockJwtService.verifyAsync).toHaveBeenCalledWith('verify-token', {
+        secret: 'action-secret',
+      });
+      expect(mockUsersService.markEmailVerified).toHaveBeenCalledWith(
+        'user-id',
+        'user@example.com',
+      );
+    });
+
+    it('rejects invalid or expired tokens', async () => {
+      mockJwtService.verifyAsync.mockRejectedValue(new Error('jwt expired'));
+
+      await expect(service.verifyEmail('bad-token')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockUsersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+
+    it('rejects action tokens issued for another purpose', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-id',
+        email: 'user@example.com',
+        purpose: 'two-factor-challenge',
+      });
+
+      await expect(
+        service.verifyEmail('challenge-token'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUsersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+
+    it('rejects links sent to an address the account no longer has', async () => {
+      mockJwtService.verifyAsync.mockResolvedValue({
+        sub: 'user-id',
+        email: 'old@example.com',
+        purpose: 'email-verification',
+      });
+      mockUsersService.markEmailVerified.mockResolvedValue(false);
+
+      await expect(service.verifyEmail('old-token')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('mails a new link to unverified accounts', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+        emailVerified: false,
+      });
+      mockJwtService.signAsync.mockResolvedValueOnce('verify-token');
+
+      await service.resendVerification('user@example.com');
+
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        {
+          sub: 'user-id',
+          email: 'user@example.com',
+          purpose: 'email-verification',
+        },
+        { secret: 'action-secret', expiresIn: 86400 },
+      );
+      expect(mockMailerService.sendEmailVerification).toHaveBeenCalledWith(
+        'user@example.com',
+        'http://localhost:3000/verify-email?token=verify-token',
+      );
+    });
+
+    it('does nothing for unknown or already verified emails', async () => {
+      mockUsersService.findByEmail.mockResolvedValueOnce(null);
+      await service.resendVerification('nobody@example.com');
+
+      mockUsersService.findByEmail.mockResolvedValueOnce({
+        id: 'user-id',
+        email: 'user@example.com',
+        emailVerified: true,
+      });
+      await service.resendVerification('user@example.com');
+
+      expect(mockMailerService.sendEmailVerification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forgotPassword', () => {
+    it('stores only the hash of the mailed token, with an expiry', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+      });
+      const before = Date.now();
+
+      await service.forgotPassword('user@example.com');
+
+      const [userId, tokenHash, expiresAt] = mockUsersService
+        .setPasswordResetToken.mock.calls[0] as [string, string, Date];
+      const [to, url] = mockMailerService.sendPasswordReset.mock.calls[0] as [
+        string,
+        string,
+      ];
+      const token = new URL(url).searchParams.get('token')!;
+      expect(userId).toBe('user-id');
+      expect(to).toBe('user@example.com');
+      expect(url).toMatch(/^http:\/\/localhost:3000\/reset-password\?token=/);
+      expect(tokenHash).toBe(hashToken(token));
+      expect(tokenHash).not.toBe(token);
+      expect(expiresAt.getTime()).toBeGreaterThanOrEqual(before + 3600 * 1000);
+      expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 3600 * 1000);
+    });
+
+    it('does nothing for unknown emails', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+
+      await service.forgotPassword('nobody@example.com');
+
+      expect(mockUsersService.setPasswordResetToken).not.toHaveBeenCalled();
+      expect(mockMailerService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const owner = {
+      id: 'user-id',
+      password: 'current-hash',
+      passwordHistory: [],
+    };
+
+    it('redeems the token by its hash and signs out every session', async () => {
+      mockUsersService.findByPasswordResetToken.mockResolvedValue(owner);
+      mockUsersService.consumePasswordResetToken.mockResolvedValue(owner);
+
+      await service.resetPassword('reset-token', 'New-password1');
+
+      expect(mockUsersService.findByPasswordResetToken).toHaveBeenCalledWith(
+        hashToken('reset-token'),
+      );
+      expect(mockUsersService.consumePasswordResetToken).toHaveBeenCalledWith(
+        hashToken('reset-token'),
+      );
+      expect(mockUsersService.resetPassword).toHaveBeenCalledWith(
+        'user-id',
+        'New-password1',
+      );
+      expect(mockSessionsService.revokeAll).toHaveBeenCalledWith('user-id');
+    });
+
+    it('rejects unknown, used or expired tokens', async () => {
+      mockUsersService.findByPasswordResetToken.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword('used-token', 'New-password1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUsersService.resetPassword).not.toHaveBeenCalled();
+      expect(mockSessionsService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    it('works once when two resets race for the same token', async () => {
+      mockUsersService.findByPasswordResetToken.mockResolvedValue(owner);
+      mockUsersService.consumePasswordResetToken.mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword('reset-token', 'New-password1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUsersService.resetPassword).not.toHaveBeenCalled();
+    });
+
+    it('rejects weak passwords before looking at the token', async () => {
+      mockPasswordPolicy.assertAcceptable.mockImplementationOnce(() => {
+        throw new WeakPasswordException(['Password is too common']);
+      });
+
+      await expect(
+        service.resetPassword('reset-token', 'password'),
+      ).rejects.toBeInstanceOf(WeakPasswordException);
+      expect(mockUsersService.findByPasswordResetToken).not.toHaveBeenCalled();
+    });
+
+    it('keeps the link when the password was used recently', async () => {
+      mockUsersService.findByPasswordResetToken.mockResolvedValue({
+        id: 'user-id',
+        password: 'current-hash',
+        passwordHistory: ['old-hash'],
+      });
+      mockPasswordPolicy.assertNotReused.mockRejectedValueOnce(
+        new WeakPasswordException(['Password must differ']),
+      );
+
+      await expect(
+        service.resetPassword('reset-token', 'Reused-password1'),
+      ).rejects.toBeInstanceOf(WeakPasswordException);
+      expect(mockPasswordPolicy.assertNotReused).toHaveBeenCalledWith(
+        'Reused-password1',
+        ['current-hash', 'old-hash'],
+      );
+      expect(mockUsersService.consumePasswordResetToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const dto = {
+      currentPassword: 'current-password',
+      newPassword: 'New-password-1',
+    };
+    const member: JwtUser = {
+      userId: 'user-id',
+      email: 'user@example.com',
+      role: 'user',
+      sessionId: 'session-id',
+      twoFactorVerified: false,
+      authMethod: 'session',
+    };
+
+    it('signs out every other session but keeps the current one', async () => {
+      await service.changePassword(member, dto, clientInfo);
+
+      expect(mockSessionsService.revokeOthers).toHaveBeenCalledWith(
+        'user-id',
+        'session-id',
+      );
+      expect(mockSessionsService.revokeAll).not.toHaveBeenCalled();
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: AuditEvent.PASSWORD_CHANGED }),
+      );
+    });
+
+    it('signs out every session when changed through an API key', async () => {
+      await service.changePassword(
+        { ...member, sessionId: null, authMethod: 'api-key' },
+        dto,
+        clientInfo,
+      );
+
+      expect(mockSessionsService.revokeAll).toHaveBeenCalledWith('user-id');
+    });
+
+    it('revokes nothing when the current password is wrong', async () => {
+      mockUsersService.changePassword.mockRejectedValueOnce(
+        new BadRequestException('Current password is incorrect'),
+      );
+
+      await expect(
+        service.changePassword(member, dto, clientInfo),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockSessionsService.revokeOthers).not.toHaveBeenCalled();
+      expect(mockSessionsService.revokeAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stopImpersonation', () => {
+    it('rejects tokens that are not impersonating', async () => {
+      await expect(
+        service.stopImpersonation(admin, clientInfo),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('revokes the impersonation token on the admin session', async () => {
+      const impersonating: JwtUser = {
+        ...admin,
+        userId: 'user-id',
+        sessionId: null,
+        actor: {
+          userId: 'admin-id',
+          sessionId: 'admin-session',
+          tokenId: 'jti-1',
+        },
+      };
+
+      await service.stopImpersonation(impersonating, clientInfo);
+
+      expect(mockSessionsService.endImpersonation).toHaveBeenCalledWith(
+        'admin-session',
+        'admin-id',
+        'jti-1',
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: AuditEvent.IMPERSONATION_STOPPED }),
+      );
+    });
+  });
+
+  describe('switchOrganization', () => {
+    const organizationId = '64b7f0c2a1b2c3d4e5f60799';
+
+    it('reissues tokens with the org claim and rotates the session', async () => {
+      mockOrganizationsService.assertMember.mockResolvedValue({
+        role: 'member',
+      });
+
+      await service.switchOrganization(admin, organizationId);
+
+      expect(mockOrganizationsService.assertMember).toHaveBeenCalledWith(
+        organizationId,
+        admin.userId,
+      );
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ org: organizationId, typ: 'access' }),
+        expect.anything(),
+      );
+      expect(mockSessionsService.rotate).toHaveBeenCalledWith(
+        admin.sessionId,
+        expect.any(String),
+        expect.any(Date),
+      );
+    });
+
+    it('refuses organizations the user does not belong to', async () => {
+      mockOrganizationsService.assertMember.mockRejectedValue(
+        new NotFoundException(),
+      );
+
+      await expect(
+        service.switchOrganization(admin, organizationId),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockSessionsService.rotate).not.toHaveBeenCalled();
+    });
+
+    it('clears the active organization without a membership check', async () => {
+      await service.switchOrganization(admin, null);
+
+      expect(mockOrganizationsService.assertMember).not.toHaveBeenCalled();
+      expect(mockJwtService.signAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ org: undefined }),
+        expect.anything(),
+      );
+    });
+
+    it('requires a login session', async () => {
+      await expect(
+        service.switchOrganization({ ...admin, sessionId: null }, null),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
 });
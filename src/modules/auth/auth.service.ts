@@ -1,56 +1,608 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
+import { isValidObjectId, Types } from 'mongoose';
 import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { SafeSession, SessionMetadata } from '../sessions/types/session.types';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { LoginDto } from '../users/dto/login.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { PasswordPolicyService } from '../users/password-policy.service';
 import { CreateUserResponse, SafeUser } from '../users/types/user.types';
-import { UserRole } from '../users/schemas/user.schema';
+import { UserDocument } from '../users/schemas/user.schema';
 import { JwtConfig } from '../../config/jwt.config';
-import { JwtPayload, JwtUser } from 'src/common/types/auth.types';
+import {
+  ActionTokenPayload,
+  ClientDetails,
+  JwtPayload,
+  JwtUser,
+  SessionUser,
+  TwoFactorChallengePayload,
+} from 'src/common/types/auth.types';
+import { AuthConfig } from '../../config/auth.config';
+import { AppConfig } from '../../config/app.config';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { generateToken, hashToken } from '../../common/utils/token.util';
+import { EmailNotVerifiedException } from '../../common/exceptions/email-not-verified.exception';
+import { AccountDeactivatedException } from '../../common/exceptions/account-deactivated.exception';
+import { JwtKeysService } from './jwt-keys.service';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { OrganizationsService } from '../organizations/organizations.service';
 
-interface TokenPair {
+export interface TokenPair {
   accessToken: string;
   refreshToken: string;
 }
 
-export interface LoginResult extends TokenPair {
+export interface AuthenticatedLogin extends TokenPair {
+  twoFactorRequired: false;
   user: SafeUser;
 }
 
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResult = AuthenticatedLogin | TwoFactorChallenge;
+
+export interface ImpersonationResult {
+  accessToken: string;
+  expiresAt: Date;
+  user: SafeUser;
+}
+
+// bcrypt hash of a random string nobody knows, see AuthService.login.
+const DUMMY_PASSWORD_HASH =
+  '$2b$12$AY79uHqVAzlBNp58E1gr/e0gb3SupKDb0.HHtpmCMnkWNJFGqfehW';
+
 @Injectable()
 export class AuthService {
   constructor(
     private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly mailerService: MailerService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginThrottle: LoginThrottleService,
+    private readonly jwtKeysService: JwtKeysService,
+    private readonly rolesService: RolesService,
+    private readonly auditService: AuditService,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly organizationsService: OrganizationsService,
   ) {}
 
   async register(
     createUserDto: CreateUserDto,
     imageUrl: string | null,
   ): Promise<CreateUserResponse> {
-    return this.usersService.create(createUserDto, imageUrl);
+    const user = await this.usersService.create(createUserDto, imageUrl);
+    await this.sendVerificationEmail(user._id, user.email);
+    return user;
   }
 
-  async login(loginDto: LoginDto): Promise<LoginResult> {
-    const user = await this.usersService.findByEmail(loginDto.email);
+  async login(
+    loginDto: LoginDto,
+    clientInfo: ClientDetails,
+  ): Promise<LoginResult> {
+    await this.loginThrottle.assertIpAllowed(clientInfo.ip);
 
-    if (!user) throw new UnauthorizedException('Invalid credentials');
+    const user = await this.usersService.findByEmail(loginDto.email);
+    const usable = user && !this.loginThrottle.isLocked(user);
 
+    // Compare against a dummy hash when there is no usable account so unknown
+    // and locked accounts cost the same time as a wrong password.
     const passwordMatch = await bcrypt.compare(
       loginDto.password,
-      user.password,
+      usable ? user.password : DUMMY_PASSWORD_HASH,
+    );
+    if (!usable || !passwordMatch) {
+      await this.loginThrottle.registerFailure(
+        clientInfo.ip,
+        usable ? user : null,
+        clientInfo.userAgent,
+      );
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    await this.loginThrottle.registerSuccess(user);
+
+    if (!user.isActive) throw new AccountDeactivatedException();
+    if (!user.emailVerified) throw new EmailNotVerifiedException();
+
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.issueTwoFactorChallenge(
+          user,
+          loginDto.deviceLabel ?? null,
+        ),
+      };
+    }
+
+    return this.startSession(user, false, {
+      deviceLabel: loginDto.deviceLabel ?? null,
+      ...clientInfo,
+    });
+  }
+
+  /** Second step of a login for accounts with two-factor authentication. */
+  async verifyTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    clientInfo: ClientDetails,
+  ): Promise<AuthenticatedLogin> {
+    const { actionSecret } = this.configService.get<JwtConfig>('jwt')!;
+
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TwoFactorChallengePayload>(
+        challengeToken,
+        { secret: actionSecret },
+      );
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+    if (payload.purpose !== 'two-factor-challenge') {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || this.loginThrottle.isLocked(user)) {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+    if (!user.isActive) throw new AccountDeactivatedException();
+
+    // Wrong codes count towards the same lockout as wrong passwords.
+    const valid = await this.twoFactorService.verify(payload.sub, code);
+    if (!valid) {
+      await this.loginThrottle.registerFailure(
+        clientInfo.ip,
+        user,
+        clientInfo.userAgent,
+      );
+      throw new UnauthorizedException('Invalid code');
+    }
+
+    return this.startSession(user, true, {
+      deviceLabel: payload.deviceLabel,
+      ...clientInfo,
+    });
+  }
+
+  /**
+   * Expects the presented refresh token to have been claimed already (see
+   * RefreshStrategy); issues its successor under the jti the claim rotated
+   * the session to. Email and role are re-read so a role change reaches the
+   * next access token, and the active organization is dropped once the user
+   * is no longer a member.
+   */
+  async refresh(jwtUser: SessionUser): Promise<TokenPair> {
+    const user = await this.usersService.findById(jwtUser.userId);
+    if (!user) throw new UnauthorizedException('Account no longer exists');
+    if (!user.isActive) throw new AccountDeactivatedException();
+
+    const organizationId =
+      jwtUser.organizationId &&
+      (await this.organizationsService.findMembership(
+        jwtUser.organizationId,
+        jwtUser.userId,
+      ))
+        ? jwtUser.organizationId
+        : undefined;
+
+    const refreshTokenId = jwtUser.refreshTokenId;
+    if (!refreshTokenId) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+    const tokens = await this.generateTokens(
+      {
+        sub: jwtUser.userId,
+        email: user.email,
+        role: user.role,
+        sid: jwtUser.sessionId,
+        mfa: jwtUser.twoFactorVerified,
+        org: organizationId,
+      },
+      refreshTokenId,
+    );
+    await this.sessionsService.extend(
+      jwtUser.sessionId,
+      this.refreshExpiresAt(),
     );
-    if (!passwordMatch) throw new UnauthorizedException('Invalid credentials');
+    return tokens;
+  }
+
+  /**
+   * Reissues the session's tokens with a new active organization (or none).
+   * The session rotates, so the previous refresh token stops working.
+   */
+  async switchOrganization(
+    jwtUser: JwtUser,
+    organizationId: string | null,
+  ): Promise<TokenPair> {
+    if (!jwtUser.sessionId) {
+      throw new ForbiddenException(
+        'Switching organization requires a login session',
+      );
+    }
+    if (organizationId) {
+      await this.organizationsService.assertMember(
+        organizationId,
+        jwtUser.userId,
+      );
+    }
+
+    const refreshTokenId = randomUUID();
+    const tokens = await this.generateTokens(
+      {
+        sub: jwtUser.userId,
+        email: jwtUser.email,
+        role: jwtUser.role,
+        sid: jwtUser.sessionId,
+        mfa: jwtUser.twoFactorVerified,
+        org: organizationId ?? undefined,
+      },
+      refreshTokenId,
+    );
+    await this.sessionsService.rotate(
+      jwtUser.sessionId,
+      refreshTokenId,
+      this.refreshExpiresAt(),
+    );
+    return tokens;
+  }
+
+  async logout(jwtUser: JwtUser): Promise<void> {
+    if (!jwtUser.sessionId) return;
+    await this.sessionsService.revoke(jwtUser.userId, jwtUser.sessionId);
+  }
+
+  async logoutAll(userId: string): Promise<void> {
+    await this.sessionsService.revokeAll(userId);
+  }
+
+  async getSessions(jwtUser: JwtUser): Promise<SafeSession[]> {
+    return this.sessionsService.findForUser(
+      jwtUser.userId,
+      jwtUser.sessionId ?? undefined,
+    );
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const revoked = await this.sessionsService.revoke(userId, sessionId);
+    if (!revoked)
+      throw new NotFoundException(`Session #${sessionId} not found`);
+  }
+
+  /**
+   * Mints a short-lived access token for another user, carrying the admin in
+   * its `act` claim. There is no refresh token: when it expires (or on
+   * stop-impersonation) the admin refreshes back into their own session.
+   * Its jti is stored on the admin's session, so stopping or ending that
+   * session revokes it before it expires.
+   */
+  async impersonate(
+    actor: JwtUser,
+    targetId: string,
+    clientInfo: ClientDetails,
+  ): Promise<ImpersonationResult> {
+    if (!actor.sessionId) {
+      throw new ForbiddenException('Impersonation requires a login session');
+    }
+    if (targetId === actor.userId) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const target = isValidObjectId(targetId)
+      ? await this.usersService.findSafeById(targetId)
+      : null;
+    if (!target) throw new NotFoundException(`User #${targetId} not found`);
+
+    // Impersonation must never grant the admin more than they already have.
+    const [actorPermissions, targetPermissions] = await Promise.all([
+      this.rolesService.getPermissions(actor.role),
+      this.rolesService.getPermissions(target.role),
+    ]);
+    if (targetPermissions.some((p) => !actorPermissions.includes(p))) {
+      throw new ForbiddenException(
+        'You cannot impersonate a user with permissions you do not hold',
+      );
+    }
+
+    const tokenId = randomUUID();
+    const started = await this.sessionsService.startImpersonation(
+      actor.sessionId,
+      actor.userId,
+      tokenId,
+    );
+    if (!started) throw new UnauthorizedException('Session has ended');
+
+    const { impersonationExpiresIn } =
+      this.configService.get<AuthConfig>('auth')!;
+    const { kid, algorithm, privateKey } = this.jwtKeysService.getSigningKey();
+    const payload: JwtPayload = {
+      sub: target._id,
+      email: target.email,
+      role: target.role,
+      sid: actor.sessionId,
+      mfa: false,
+      typ: 'access',
+      jti: tokenId,
+      act: { sub: actor.userId, sid: actor.sessionId },
+    };
+    const accessToken = await this.jwtService.signAsync(payload, {
+      privateKey,
+      algorithm,
+      keyid: kid,
+      expiresIn: impersonationExpiresIn,
+    });
+    const expiresAt = new Date(Date.now() + impersonationExpiresIn * 1000);
+
+    await this.auditService.record({
+      event: AuditEvent.IMPERSONATION_STARTED,
+      userId: target._id,
+      actorId: actor.userId,
+      ip: clientInfo.ip,
+      userAgent: clientInfo.userAgent,
+      metadata: { expiresAt },
+    });
+
+    return { accessToken, expiresAt, user: target };
+  }
+
+  async stopImpersonation(
+    jwtUser: JwtUser,
+    clientInfo: ClientDetails,
+  ): Promise<void> {
+    if (!jwtUser.actor) {
+      throw new BadRequestException('You are not impersonating anyone');
+    }
+
+    const { userId, sessionId, tokenId } = jwtUser.actor;
+    await this.sessionsService.endImpersonation(sessionId, userId, tokenId);
+
+    await this.auditService.record({
+      event: AuditEvent.IMPERSONATION_STOPPED,
+      userId: jwtUser.userId,
+      actorId: jwtUser.actor.userId,
+      ip: clientInfo.ip,
+      userAgent: clientInfo.userAgent,
+    });
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const { actionSecret } = this.configService.get<JwtConfig>('jwt')!;
 
+    let payload: ActionTokenPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<ActionTokenPayload>(token, {
+        secret: actionSecret,
+      });
+    } catch {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (payload.purpose !== 'email-verification') {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const verified = await this.usersService.markEmailVerified(
+      payload.sub,
+      payload.email,
+    );
+    if (!verified) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+  }
+
+  /** Resolves silently for unknown or already verified addresses. */
+  async resendVerification(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.emailVerified) return;
+
+    await this.sendVerificationEmail(user.id, user.email);
+  }
+
+  /**
+   * Always resolves, whether or not the email belongs to an account, so the
+   * endpoint cannot be used to discover registered addresses.
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user) return;
+
+    const { passwordResetExpiresIn } =
+      this.configService.get<AuthConfig>('auth')!;
+    const { clientUrl } = this.configService.get<AppConfig>('app')!;
+
+    const token = generateToken();
+    await this.usersService.setPasswordResetToken(
+      user.id,
+      hashToken(token),
+      new Date(Date.now() + passwordResetExpiresIn * 1000),
+    );
+
+    await this.mailerService.sendPasswordReset(
+      user.email,
+      `${clientUrl}/reset-password?token=${token}`,
+    );
+  }
+
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || !user.isActive) return;
+
+    const { magicLinkExpiresIn } = this.configService.get<AuthConfig>('auth')!;
+    const { clientUrl } = this.configService.get<AppConfig>('app')!;
+
+    // A new request replaces any link sent before.
+    const token = generateToken();
+    await this.usersService.setMagicLinkToken(
+      user.id,
+      hashToken(token),
+      new Date(Date.now() + magicLinkExpiresIn * 1000),
+    );
+
+    const query = new URLSearchParams({ token, email: user.email });
+    await this.mailerService.sendMagicLink(
+      user.email,
+      `${clientUrl}/magic-link?${query.toString()}`,
+    );
+  }
+
+  /** Exchanges a mailed sign-in link for a session, like a password login. */
+  async loginWithMagicLink(
+    verifyMagicLinkDto: VerifyMagicLinkDto,
+    clientInfo: ClientDetails,
+  ): Promise<LoginResult> {
+    const user = await this.usersService.consumeMagicLinkToken(
+      verifyMagicLinkDto.email,
+      hashToken(verifyMagicLinkDto.token),
+    );
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired sign-in link');
+    }
+    if (!user.isActive) throw new AccountDeactivatedException();
+
+    const deviceLabel = verifyMagicLinkDto.deviceLabel ?? null;
+
+    // The link replaces the password, not the second factor.
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.issueTwoFactorChallenge(user, deviceLabel),
+      };
+    }
+
+    return this.startSession(user, false, { deviceLabel, ...clientInfo });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    // The whole policy, reuse included, is checked before the token is
+    // consumed so a rejected choice does not burn the link.
+    this.passwordPolicy.assertAcceptable(password);
+
+    const tokenHash = hashToken(token);
+    const owner = await this.usersService.findByPasswordResetToken(tokenHash);
+    if (!owner) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+    await this.passwordPolicy.assertNotReused(password, [
+      owner.password,
+      ...owner.passwordHistory,
+    ]);
+
+    const user = await this.usersService.consumePasswordResetToken(tokenHash);
+    if (!user) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    await this.usersService.resetPassword(user.id, password);
+    await this.sessionsService.revokeAll(user.id);
+  }
+
+  /**
+   * Changes the password of a signed-in user and signs out every other
+   * device, so a stolen session does not outlive the old password.
+   */
+  async changePassword(
+    jwtUser: JwtUser,
+    changePasswordDto: ChangePasswordDto,
+    clientInfo: ClientDetails,
+  ): Promise<void> {
+    await this.usersService.changePassword(
+      jwtUser.userId,
+      changePasswordDto.currentPassword,
+      changePasswordDto.newPassword,
+    );
+
+    if (jwtUser.sessionId) {
+      await this.sessionsService.revokeOthers(
+        jwtUser.userId,
+        jwtUser.sessionId,
+      );
+    } else {
+      await this.sessionsService.revokeAll(jwtUser.userId);
+    }
+
+    await this.auditService.record({
+      event: AuditEvent.PASSWORD_CHANGED,
+      userId: jwtUser.userId,
+      ip: clientInfo.ip,
+      userAgent: clientInfo.userAgent,
+    });
+  }
+
+  private async sendVerificationEmail(
+    userId: string,
+    email: string,
+  ): Promise<void> {
+    const { actionSecret } = this.configService.get<JwtConfig>('jwt')!;
+    const { emailVerificationExpiresIn } =
+      this.configService.get<AuthConfig>('auth')!;
+    const { clientUrl } = this.configService.get<AppConfig>('app')!;
+
+    const payload: ActionTokenPayload = {
+      sub: userId,
+      email,
+      purpose: 'email-verification',
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: actionSecret,
+      expiresIn: emailVerificationExpiresIn,
+    });
+
+    await this.mailerService.sendEmailVerification(
+      email,
+      `${clientUrl}/verify-email?token=${token}`,
+    );
+  }
+
+  private async startSession(
+    user: UserDocument,
+    twoFactorVerified: boolean,
+    metadata: SessionMetadata,
+  ): Promise<AuthenticatedLogin> {
     const userId = user.id;
-    const tokens = await this.generateTokens(userId, user.email, user.role);
+    const sessionId = new Types.ObjectId();
+    const refreshTokenId = randomUUID();
+    const tokens = await this.generateTokens(
+      {
+        sub: userId,
+        email: user.email,
+        role: user.role,
+        sid: sessionId.toString(),
+        mfa: twoFactorVerified,
+      },
+      refreshTokenId,
+    );
 
-    await this.usersService.updateRefreshToken(userId, tokens.refreshToken);
+    await this.sessionsService.create(
+      sessionId,
+      userId,
+      refreshTokenId,
+      this.refreshExpiresAt(),
+      metadata,
+    );
 
     return {
+      twoFactorRequired: false,
       ...tokens,
       user: {
         _id: userId,
@@ -59,49 +611,69 @@ export class AuthService {
         email: user.email,
         role: user.role,
         image: user.image,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
       },
     };
   }
 
-  async refresh(jwtUser: JwtUser): Promise<TokenPair> {
-    const tokens = await this.generateTokens(
-      jwtUser.userId,
-      jwtUser.email,
-      jwtUser.role,
-    );
-    await this.usersService.updateRefreshToken(
-      jwtUser.userId,
-      tokens.refreshToken,
-    );
-    return tokens;
-  }
+  private async issueTwoFactorChallenge(
+    user: UserDocument,
+    deviceLabel: string | null,
+  ): Promise<string> {
+    const { actionSecret } = this.configService.get<JwtConfig>('jwt')!;
+    const { twoFactorChallengeExpiresIn } =
+      this.configService.get<AuthConfig>('auth')!;
 
-  async logout(userId: string): Promise<void> {
-    await this.usersService.updateRefreshToken(userId, null);
+    const payload: TwoFactorChallengePayload = {
+      sub: user.id,
+      email: user.email,
+      purpose: 'two-factor-challenge',
+      deviceLabel,
+    };
+    return this.jwtService.signAsync(payload, {
+      secret: actionSecret,
+      expiresIn: twoFactorChallengeExpiresIn,
+    });
   }
 
   private async generateTokens(
-    userId: string,
-    email: string,
-    role: UserRole,
+    claims: Omit<JwtPayload, 'jti' | 'typ'>,
+    refreshTokenId: string,
   ): Promise<TokenPair> {
     const jwtConfig = this.configService.get<JwtConfig>('jwt')!;
-    const payload: JwtPayload = { sub: userId, email, role };
+    const { kid, algorithm, privateKey } = this.jwtKeysService.getSigningKey();
 
     const [accessToken, refreshToken] = await Promise.all([
-      this.jwtService.signAsync(payload, {
-        secret: jwtConfig.accessSecret,
-        expiresIn: jwtConfig.accessExpiresIn,
-      }),
-      this.jwtService.signAsync(payload, {
-        secret: jwtConfig.refreshSecret,
-        expiresIn: jwtConfig.refreshExpiresIn,
-      }),
+      this.jwtService.signAsync(
+        { ...claims, typ: 'access' },
+        {
+          privateKey,
+          algorithm,
+          keyid: kid,
+          expiresIn: jwtConfig.accessExpiresIn,
+        },
+      ),
+      this.jwtService.signAsync(
+        { ...claims, typ: 'refresh' },
+        {
+          privateKey,
+          algorithm,
+          keyid: kid,
+          expiresIn: jwtConfig.refreshExpiresIn,
+          jwtid: refreshTokenId,
+        },
+      ),
     ]);
 
     return { accessToken, refreshToken };
   }
 
+  private refreshExpiresAt(): Date {
+    const { refreshExpiresIn } = this.configService.get<JwtConfig>('jwt')!;
+    return new Date(Date.now() + refreshExpiresIn * 1000);
+  }
+
   async getProfile(userId: string) {
     return this.usersService.findSafeById(userId);
   }
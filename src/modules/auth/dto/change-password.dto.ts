@@ -0,0 +1,11 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class ChangePasswordDto {
+  @IsString()
+  currentPassword!: string;
+
+  // Strength rules live in PasswordPolicyService.
+  @IsString()
+  @MaxLength(100)
+  newPassword!: string;
+}
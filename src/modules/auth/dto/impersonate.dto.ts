@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { TokenDelivery } from '../../users/dto/login.dto';
+
+export class ImpersonateDto {
+  @IsOptional()
+  @IsEnum(TokenDelivery)
+  tokenDelivery?: TokenDelivery;
+}
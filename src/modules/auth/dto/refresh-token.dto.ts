@@ -0,0 +1,9 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  // Only for clients that received their tokens in the response body;
+  // browsers send the refreshToken cookie instead.
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+}
@@ -0,0 +1,6 @@
+import { IsEmail } from 'class-validator';
+
+export class RequestMagicLinkDto {
+  @IsEmail()
+  email!: string;
+}
@@ -0,0 +1,11 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsString()
+  token!: string;
+
+  // Strength rules live in PasswordPolicyService.
+  @IsString()
+  @MaxLength(100)
+  password!: string;
+}
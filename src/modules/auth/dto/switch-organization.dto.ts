@@ -0,0 +1,13 @@
+import { IsEnum, IsMongoId, IsOptional } from 'class-validator';
+import { TokenDelivery } from '../../users/dto/login.dto';
+
+export class SwitchOrganizationDto {
+  /** Omit to clear the active organization. */
+  @IsOptional()
+  @IsMongoId()
+  organizationId?: string;
+
+  @IsOptional()
+  @IsEnum(TokenDelivery)
+  tokenDelivery?: TokenDelivery;
+}
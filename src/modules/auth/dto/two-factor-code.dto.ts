@@ -0,0 +1,9 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  // Either a 6 digit TOTP code or a recovery code (xxxxx-xxxxx).
+  @IsString()
+  @MinLength(6)
+  @MaxLength(20)
+  code!: string;
+}
@@ -0,0 +1,26 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { TokenDelivery } from '../../users/dto/login.dto';
+
+export class VerifyMagicLinkDto {
+  @IsString()
+  token!: string;
+
+  // The link only works for the address it was sent to.
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  deviceLabel?: string;
+
+  @IsOptional()
+  @IsEnum(TokenDelivery)
+  tokenDelivery?: TokenDelivery;
+}
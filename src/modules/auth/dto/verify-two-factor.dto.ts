@@ -0,0 +1,23 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { TokenDelivery } from '../../users/dto/login.dto';
+
+export class VerifyTwoFactorDto {
+  @IsString()
+  challengeToken!: string;
+
+  // Either a 6 digit TOTP code or a recovery code (xxxxx-xxxxx).
+  @IsString()
+  @MinLength(6)
+  @MaxLength(20)
+  code!: string;
+
+  @IsOptional()
+  @IsEnum(TokenDelivery)
+  tokenDelivery?: TokenDelivery;
+}
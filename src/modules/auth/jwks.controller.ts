@@ -0,0 +1,18 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { Public } from '../../common/decorators/public.decorator';
+import { JwtKeysService } from './jwt-keys.service';
+
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly jwtKeysService: JwtKeysService) {}
+
+  // Served raw (no ApiResponse envelope) because JWKS consumers expect the
+  // RFC 7517 document shape.
+  @Get('jwks.json')
+  @Public()
+  getJwks(@Res() res: Response): void {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json(this.jwtKeysService.getJwks());
+  }
+}
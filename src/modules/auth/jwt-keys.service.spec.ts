@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JwtKeysService } from './jwt-keys.service';
+
+function writeRsaKey(dir: string, kid: string, publicOnly = false): void {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const pem = publicOnly
+    ? publicKey.export({ type: 'spki', format: 'pem' })
+    : privateKey.export({ type: 'pkcs8', format: 'pem' });
+  writeFileSync(join(dir, `${kid}.pem`), pem);
+}
+
+function tokenWithKid(kid: string): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid })).toString(
+    'base64url',
+  );
+  return `${header}.e30.signature`;
+}
+
+describe('JwtKeysService', () => {
+  let keysDir: string;
+  let signingKeyId: string | undefined;
+
+  async function createService(): Promise<JwtKeysService> {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtKeysService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => ({ keysDir, signingKeyId })) },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<JwtKeysService>(JwtKeysService);
+    service.onModuleInit();
+    return service;
+  }
+
+  beforeEach(() => {
+    keysDir = mkdtempSync(join(tmpdir(), 'jwt-keys-'));
+    signingKeyId = undefined;
+  });
+
+  afterEach(() => {
+    rmSync(keysDir, { recursive: true, force: true });
+  });
+
+  it('signs with the only private key and publishes it in the JWKS', async () => {
+    writeRsaKey(keysDir, '2024-01');
+
+    const service = await createService();
+
+    expect(service.getSigningKey()).toMatchObject({
+      kid: '2024-01',
+      algorithm: 'RS256',
+    });
+    expect(service.getJwks().keys).toEqual([
+      expect.objectContaining({ kid: '2024-01', alg: 'RS256', kty: 'RSA' }),
+    ]);
+    expect(JSON.stringify(service.getJwks())).not.toContain('"d"');
+  });
+
+  it('keeps retired public keys for verification only', async () => {
+    writeRsaKey(keysDir, 'old', true);
+    writeRsaKey(keysDir, 'new');
+
+    const service = await createService();
+
+    expect(service.getSigningKey().kid).toBe('new');
+    expect(service.getVerificationKey(tokenWithKid('old'))).toContain(
+      'BEGIN PUBLIC KEY',
+    );
+    expect(
+      service
+        .getJwks()
+        .keys.map((key) => key.kid)
+        .sort(),
+    ).toEqual(['new', 'old']);
+  });
+
+  it('requires JWT_SIGNING_KEY_ID when several private keys exist', async () => {
+    writeRsaKey(keysDir, 'a');
+    writeRsaKey(keysDir, 'b');
+
+    await expect(createService()).rejects.toThrow(/JWT_SIGNING_KEY_ID/);
+
+    signingKeyId = 'b';
+    const service = await createService();
+    expect(service.getSigningKey().kid).toBe('b');
+  });
+
+  it('selects the verification key by kid', async () => {
+    writeRsaKey(keysDir, 'current');
+
+    const service = await createService();
+
+    expect(service.getVerificationKey(tokenWithKid('current'))).toContain(
+      'BEGIN PUBLIC KEY',
+    );
+    expect(service.getVerificationKey(tokenWithKid('unknown'))).toBeNull();
+    expect(service.getVerificationKey('not-a-jwt')).toBeNull();
+  });
+
+  it('rejects Ed25519 keys', async () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    writeFileSync(
+      join(keysDir, 'ed.pem'),
+      privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    );
+
+    await expect(createService()).rejects.toThrow(/RSA or P-256/);
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPrivateKey, createPublicKey, KeyObject } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import type { Algorithm } from 'jsonwebtoken';
+import type { JwtConfig } from '../../config/jwt.config';
+import type { Jwks, SigningKey } from './types/jwks.types';
+
+export const JWT_ALGORITHMS: Algorithm[] = ['RS256', 'ES256'];
+
+interface LoadedKey {
+  kid: string;
+  algorithm: Algorithm;
+  publicKey: KeyObject;
+  /** Null for retired keys that only verify tokens issued before rotation. */
+  privateKey: KeyObject | null;
+}
+
+/**
+ * Asymmetric keys for session tokens. Every `<kid>.pem` in the keys directory
+ * is published in the JWKS and accepted for verification; only the configured
+ * signing key issues new tokens. Rotation: add the new key, switch
+ * JWT_SIGNING_KEY_ID, and delete (or keep only the public half of) the old
+ * key once the last refresh token it signed has expired.
+ */
+@Injectable()
+export class JwtKeysService implements OnModuleInit {
+  private readonly logger = new Logger(JwtKeysService.name);
+  private readonly keys = new Map<string, LoadedKey>();
+  private signingKey!: SigningKey;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  onModuleInit(): void {
+    const { keysDir, signingKeyId } = this.configService.get<JwtConfig>('jwt')!;
+
+    const files = readdirSync(keysDir).filter((file) => file.endsWith('.pem'));
+    for (const file of files) {
+      const key = this.loadKey(
+        basename(file, extname(file)),
+        readFileSync(join(keysDir, file), 'utf8'),
+      );
+      this.keys.set(key.kid, key);
+    }
+
+    this.signingKey = this.selectSigningKey(signingKeyId);
+    this.logger.log(
+      `Loaded ${this.keys.size} JWT key(s), signing with "${this.signingKey.kid}"`,
+    );
+  }
+
+  getSigningKey(): SigningKey {
+    return this.signingKey;
+  }
+
+  /** Public key (PEM) matching the `kid` header of a token, if we know it. */
+  getVerificationKey(rawToken: string): string | null {
+    const kid = this.readKeyId(rawToken);
+    const key = kid ? this.keys.get(kid) : undefined;
+    if (!key) return null;
+    return key.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  getJwks(): Jwks {
+    return {
+      keys: [...this.keys.values()].map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private loadKey(kid: string, pem: string): LoadedKey {
+    const privateKey = pem.includes('PRIVATE KEY')
+      ? createPrivateKey(pem)
+      : null;
+    const publicKey = privateKey
+      ? createPublicKey(privateKey)
+      : createPublicKey(pem);
+
+    return {
+      kid,
+      algorithm: this.algorithmFor(kid, publicKey),
+      publicKey,
+      privateKey,
+    };
+  }
+
+  private algorithmFor(kid: string, key: KeyObject): Algorithm {
+    if (key.asymmetricKeyType === 'rsa') return 'RS256';
+    if (
+      key.asymmetricKeyType === 'ec' &&
+      key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    ) {
+      return 'ES256';
+    }
+    // jsonwebtoken (used by passport-jwt and @nestjs/jwt) cannot sign or
+    // verify EdDSA, so Ed25519 keys are rejected here as well.
+    throw new Error(
+      `JWT key "${kid}" must be an RSA or P-256 EC key (got ${key.asymmetricKeyType})`,
+    );
+  }
+
+  private selectSigningKey(signingKeyId: string | undefined): SigningKey {
+    const candidates = [...this.keys.values()].filter(
+      (key) => key.privateKey && (!signingKeyId || key.kid === signingKeyId),
+    );
+
+    if (candidates.length === 0) {
+      throw new Error(
+        signingKeyId
+          ? `No private key found for JWT_SIGNING_KEY_ID "${signingKeyId}"`
+          : 'No private JWT key found, see JWT_KEYS_DIR',
+      );
+    }
+    if (candidates.length > 1) {
+      throw new Error(
+        'Several private JWT keys found, set JWT_SIGNING_KEY_ID to pick one',
+      );
+    }
+
+    const [key] = candidates;
+    return {
+      kid: key.kid,
+      algorithm: key.algorithm,
+      privateKey: key
+        .privateKey!.export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+    };
+  }
+
+  private readKeyId(rawToken: string): string | null {
+    try {
+      const header = JSON.parse(
+        Buffer.from(rawToken.split('.')[0], 'base64url').toString('utf8'),
+      ) as { kid?: unknown };
+      return typeof header.kid === 'string' ? header.kid : null;
+    } catch {
+      return null;
+    }
+  }
+}
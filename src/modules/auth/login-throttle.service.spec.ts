@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginFailure } from './schemas/login-failure.schema';
+import { UsersService } from '../users/users.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { UserDocument } from '../users/schemas/user.schema';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+
+  const mockLoginFailureModel = {
+    create: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockUsersService = {
+    registerFailedLogin: jest.fn(),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({
+      maxFailedLogins: 5,
+      lockoutDuration: 900,
+      maxFailedLoginsPerIp: 20,
+      failedLoginWindow: 900,
+      loginDelayBaseMs: 0,
+      loginDelayMaxMs: 0,
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: getModelToken(LoginFailure.name),
+          useValue: mockLoginFailureModel,
+        },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should rate limit an IP past the threshold', async () => {
+    mockLoginFailureModel.countDocuments.mockResolvedValue(20);
+
+    await expect(service.assertIpAllowed('10.0.0.1')).rejects.toThrow(
+      'Too many failed login attempts',
+    );
+  });
+
+  it('should audit the attempt that locks an account', async () => {
+    mockLoginFailureModel.countDocuments.mockResolvedValue(5);
+    mockUsersService.registerFailedLogin.mockResolvedValue({
+      attempts: 5,
+      locked: true,
+    });
+
+    await service.registerFailure(
+      '10.0.0.1',
+      { id: 'user-1' } as UserDocument,
+      null,
+    );
+
+    expect(mockAuditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        event: AuditEvent.ACCOUNT_LOCKED,
+        userId: 'user-1',
+      }),
+    );
+  });
+
+  it('should not touch any account for unknown emails', async () => {
+    mockLoginFailureModel.countDocuments.mockResolvedValue(1);
+
+    await service.registerFailure('10.0.0.1', null, null);
+
+    expect(mockLoginFailureModel.create).toHaveBeenCalled();
+    expect(mockUsersService.registerFailedLogin).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { setTimeout as sleep } from 'timers/promises';
+import { UsersService } from '../users/users.service';
+import { UserDocument } from '../users/schemas/user.schema';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { AuthConfig } from '../../config/auth.config';
+import {
+  LoginFailure,
+  LoginFailureDocument,
+} from './schemas/login-failure.schema';
+
+/**
+ * Brute-force protection for password logins: failures are counted per
+ * account (leading to a temporary lock) and per client IP (leading to a rate
+ * limit), and every failure is answered progressively slower.
+ */
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @InjectModel(LoginFailure.name)
+    private readonly loginFailureModel: Model<LoginFailureDocument>,
+    private readonly usersService: UsersService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async assertIpAllowed(ip: string | null): Promise<void> {
+    if (!ip) return;
+
+    const { maxFailedLoginsPerIp } =
+      this.configService.get<AuthConfig>('auth')!;
+    const failures = await this.loginFailureModel.countDocuments({ ip });
+    if (failures >= maxFailedLoginsPerIp) {
+      throw new HttpException(
+        'Too many failed login attempts, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  isLocked(user: UserDocument): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  /**
+   * Records a failed attempt and waits before returning. `user` is null for
+   * unknown emails and for accounts that are already locked, so neither case
+   * can be told apart from a wrong password.
+   */
+  async registerFailure(
+    ip: string | null,
+    user: UserDocument | null,
+    userAgent: string | null,
+  ): Promise<void> {
+    const config = this.configService.get<AuthConfig>('auth')!;
+
+    let ipFailures = 0;
+    if (ip) {
+      await this.loginFailureModel.create({
+        ip,
+        expiresAt: new Date(Date.now() + config.failedLoginWindow * 1000),
+      });
+      ipFailures = await this.loginFailureModel.countDocuments({ ip });
+    }
+
+    let accountFailures = 0;
+    if (user) {
+      const result = await this.usersService.registerFailedLogin(
+        user.id,
+        config.maxFailedLogins,
+        config.lockoutDuration * 1000,
+      );
+      accountFailures = result.attempts;
+
+      if (result.locked) {
+        await this.auditService.record({
+          event: AuditEvent.ACCOUNT_LOCKED,
+          userId: user.id,
+          ip,
+          userAgent,
+          metadata: { attempts: result.attempts },
+        });
+      }
+    }
+
+    await sleep(this.delayFor(Math.max(ipFailures, accountFailures), config));
+  }
+
+  async registerSuccess(user: UserDocument): Promise<void> {
+    await this.usersService.clearFailedLogins(user.id);
+  }
+
+  private delayFor(failures: number, config: AuthConfig): number {
+    if (failures <= 0) return 0;
+    return Math.min(
+      config.loginDelayBaseMs * 2 ** (failures - 1),
+      config.loginDelayMaxMs,
+    );
+  }
+}
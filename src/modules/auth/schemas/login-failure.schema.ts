@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type LoginFailureDocument = HydratedDocument<LoginFailure>;
+
+// One document per failed login, used to rate limit by client IP.
+@Schema({ collection: 'login_failures' })
+export class LoginFailure {
+  @Prop({ type: String, required: true, index: true })
+  ip!: string;
+
+  @Prop({ type: Date, required: true, expires: 0 })
+  expiresAt!: Date;
+}
+
+export const LoginFailureSchema = SchemaFactory.createForClass(LoginFailure);
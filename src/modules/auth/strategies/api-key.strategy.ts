@@ -0,0 +1,58 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import type { Request } from 'express';
+import {
+  API_KEY_PREFIX,
+  ApiKeysService,
+} from '../../api-keys/api-keys.service';
+import { UsersService } from '../../users/users.service';
+import { JwtUser } from 'src/common/types/auth.types';
+import { AccountDeactivatedException } from '../../../common/exceptions/account-deactivated.exception';
+
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly usersService: UsersService,
+  ) {
+    super();
+  }
+
+  async validate(request: Request): Promise<JwtUser | null> {
+    const key = this.extractKey(request);
+    // Not an API key request: let the next strategy (or a 401) handle it.
+    if (!key) return null;
+
+    const apiKey = await this.apiKeysService.authenticate(key);
+    if (!apiKey) throw new UnauthorizedException('Invalid or expired API key');
+
+    const user = await this.usersService.findById(apiKey.user.toString());
+    if (!user) throw new UnauthorizedException('Invalid or expired API key');
+    if (!user.isActive) throw new AccountDeactivatedException();
+
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId: null,
+      twoFactorVerified: false,
+      authMethod: 'api-key',
+      scopes: apiKey.scopes,
+    };
+  }
+
+  private extractKey(request: Request): string | null {
+    const header = request.headers['x-api-key'];
+    if (typeof header === 'string' && header) return header;
+
+    const [scheme, value] = (request.headers.authorization ?? '').split(' ');
+    if (
+      scheme?.toLowerCase() === 'bearer' &&
+      value?.startsWith(API_KEY_PREFIX)
+    ) {
+      return value;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,126 @@
+import { UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+import { extractAccessToken, JwtStrategy } from './jwt.strategy';
+import { JwtKeysService } from '../jwt-keys.service';
+import { UsersService } from '../../users/users.service';
+import { SessionsService } from '../../sessions/sessions.service';
+import { JwtPayload } from '../../../common/types/auth.types';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const mockUsersService = {
+    isActive: jest.fn(),
+  };
+
+  // Stands in for the admin session record: one live impersonation jti.
+  let storedTokenId: string | null;
+  const mockSessionsService = {
+    isImpersonationActive: jest.fn(
+      (_sessionId: string, _userId: string, tokenId: string) =>
+        Promise.resolve(tokenId === storedTokenId),
+    ),
+    endImpersonation: jest.fn(() => {
+      storedTokenId = null;
+      return Promise.resolve();
+    }),
+  };
+
+  const impersonation: JwtPayload = {
+    sub: 'user-id',
+    email: 'user@example.com',
+    role: 'user',
+    sid: 'admin-session',
+    mfa: false,
+    typ: 'access',
+    jti: 'jti-1',
+    act: { sub: 'admin-id', sid: 'admin-session' },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUsersService.isActive.mockResolvedValue(true);
+    storedTokenId = 'jti-1';
+
+    strategy = new JwtStrategy(
+      { getVerificationKey: jest.fn() } as unknown as JwtKeysService,
+      mockUsersService as unknown as UsersService,
+      mockSessionsService as unknown as SessionsService,
+    );
+  });
+
+  it('accepts a live impersonation token and exposes the actor', async () => {
+    const user = await strategy.validate(impersonation);
+
+    expect(user.actor).toEqual({
+      userId: 'admin-id',
+      sessionId: 'admin-session',
+      tokenId: 'jti-1',
+    });
+    expect(mockSessionsService.isImpersonationActive).toHaveBeenCalledWith(
+      'admin-session',
+      'admin-id',
+      'jti-1',
+    );
+  });
+
+  it('refuses an impersonation token after it was stopped', async () => {
+    await strategy.validate(impersonation);
+    await mockSessionsService.endImpersonation();
+
+    await expect(strategy.validate(impersonation)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+
+  it('refuses impersonation tokens without a jti', async () => {
+    await expect(
+      strategy.validate({ ...impersonation, jti: undefined }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(mockSessionsService.isImpersonationActive).not.toHaveBeenCalled();
+  });
+
+  it('does not look up sessions for regular access tokens', async () => {
+    const user = await strategy.validate({
+      ...impersonation,
+      sid: 'user-session',
+      jti: undefined,
+      act: undefined,
+    });
+
+    expect(user.sessionId).toBe('user-session');
+    expect(mockSessionsService.isImpersonationActive).not.toHaveBeenCalled();
+  });
+
+  describe('extractAccessToken', () => {
+    const request = (
+      headers: Record<string, string>,
+      cookies: Record<string, string> = { accessToken: 'cookie-jwt' },
+    ) => ({ headers, cookies }) as unknown as Request;
+
+    it('reads Bearer tokens from the Authorization header', () => {
+      expect(extractAccessToken(request({ authorization: 'Bearer jwt' }))).toBe(
+        'jwt',
+      );
+    });
+
+    it('falls back to the accessToken cookie without credential headers', () => {
+      expect(extractAccessToken(request({}))).toBe('cookie-jwt');
+    });
+
+    it('leaves API keys to ApiKeyStrategy', () => {
+      expect(
+        extractAccessToken(request({ authorization: 'Bearer nlk_key' })),
+      ).toBeNull();
+    });
+
+    it('ignores the cookie whenever a credential header is sent', () => {
+      expect(
+        extractAccessToken(request({ authorization: 'Basic eDp5' })),
+      ).toBeNull();
+      expect(
+        extractAccessToken(request({ 'x-api-key': 'nlk_key' })),
+      ).toBeNull();
+    });
+  });
+});
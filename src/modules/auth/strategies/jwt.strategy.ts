@@ -1,35 +1,97 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy, StrategyOptions } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
 import type { Request } from 'express';
-import type { JwtConfig } from '../../../config/jwt.config';
 import { JwtPayload, JwtUser } from 'src/common/types/auth.types';
+import { API_KEY_PREFIX } from '../../api-keys/api-keys.service';
+import { JWT_ALGORITHMS, JwtKeysService } from '../jwt-keys.service';
+import { UsersService } from '../../users/users.service';
+import { SessionsService } from '../../sessions/sessions.service';
+import { AccountDeactivatedException } from '../../../common/exceptions/account-deactivated.exception';
+
+const fromBearerHeader = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+/**
+ * Mobile and other non-browser clients send a Bearer token; browsers the
+ * accessToken cookie. A request carrying an Authorization or X-API-Key
+ * header never falls back to the cookie, so CsrfMiddleware can trust that
+ * such requests are not authenticated by cookie. API keys share the Bearer
+ * scheme but are handled by ApiKeyStrategy.
+ */
+export function extractAccessToken(request: Request): string | null {
+  if (request.headers.authorization || request.headers['x-api-key']) {
+    const token = fromBearerHeader(request);
+    return token && !token.startsWith(API_KEY_PREFIX) ? token : null;
+  }
+
+  const cookies = request.cookies as Record<string, string | undefined>;
+  return cookies['accessToken'] ?? null;
+}
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor(private readonly configService: ConfigService) {
-    const jwtConfig = configService.get<JwtConfig>('jwt')!;
-
+  constructor(
+    jwtKeysService: JwtKeysService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+  ) {
     const options: StrategyOptions = {
-      jwtFromRequest: ExtractJwt.fromExtractors([
-        (request: Request): string | null => {
-          const cookies = request.cookies as Record<string, string | undefined>;
-          return cookies['accessToken'] ?? null;
-        },
-      ]),
+      jwtFromRequest: extractAccessToken,
       ignoreExpiration: false,
-      secretOrKey: jwtConfig.accessSecret,
+      algorithms: JWT_ALGORITHMS,
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const key = jwtKeysService.getVerificationKey(rawJwtToken);
+        if (!key) return done(new UnauthorizedException('Unknown signing key'));
+        done(null, key);
+      },
     };
 
     super(options);
   }
 
-  validate(payload: JwtPayload): JwtUser {
+  async validate(payload: JwtPayload): Promise<JwtUser> {
+    if (payload.typ !== 'access') {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    // Checked on every request so deactivation does not wait for the token
+    // to expire.
+    if (!(await this.usersService.isActive(payload.sub))) {
+      throw new AccountDeactivatedException();
+    }
+
+    // An impersonation token rides on the admin's session, not on one of
+    // the impersonated user's, and dies with it or on stop-impersonation.
+    if (payload.act) {
+      const { act, jti } = payload;
+      const active =
+        jti !== undefined &&
+        (await this.sessionsService.isImpersonationActive(
+          act.sid,
+          act.sub,
+          jti,
+        ));
+      if (!active) throw new UnauthorizedException('Impersonation has ended');
+
+      return {
+        userId: payload.sub,
+        email: payload.email,
+        role: payload.role,
+        sessionId: null,
+        twoFactorVerified: false,
+        authMethod: 'session',
+        actor: { userId: act.sub, sessionId: act.sid, tokenId: jti },
+      };
+    }
+
     return {
       userId: payload.sub,
       email: payload.email,
       role: payload.role,
+      sessionId: payload.sid,
+      twoFactorVerified: payload.mfa,
+      authMethod: 'session',
+      organizationId: payload.org,
     };
   }
 }
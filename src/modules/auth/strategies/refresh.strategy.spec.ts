@@ -0,0 +1,101 @@
+import { UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+import { RefreshStrategy } from './refresh.strategy';
+import { JwtKeysService } from '../jwt-keys.service';
+import { SessionsService } from '../../sessions/sessions.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/schemas/audit-log.schema';
+import { JwtPayload } from '../../../common/types/auth.types';
+
+describe('RefreshStrategy', () => {
+  let strategy: RefreshStrategy;
+
+  const mockSessionsService = {
+    claimRefreshToken: jest.fn(),
+  };
+
+  const mockAuditService = {
+    record: jest.fn(),
+  };
+
+  const request = {
+    ip: '127.0.0.1',
+    headers: { 'user-agent': 'jest' },
+  } as unknown as Request;
+
+  const payload: JwtPayload = {
+    sub: 'user-id',
+    email: 'user@example.com',
+    role: 'user',
+    sid: 'session-id',
+    mfa: false,
+    typ: 'refresh',
+    jti: 'jti-1',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    strategy = new RefreshStrategy(
+      { getVerificationKey: jest.fn() } as unknown as JwtKeysService,
+      mockSessionsService as unknown as SessionsService,
+      mockAuditService as unknown as AuditService,
+    );
+  });
+
+  it('hands the rotated jti on to the refresh', async () => {
+    mockSessionsService.claimRefreshToken.mockResolvedValueOnce({
+      status: 'claimed',
+      refreshTokenId: 'jti-2',
+    });
+
+    const user = await strategy.validate(request, payload);
+
+    expect(user).toMatchObject({
+      userId: 'user-id',
+      sessionId: 'session-id',
+      refreshTokenId: 'jti-2',
+    });
+    expect(mockSessionsService.claimRefreshToken).toHaveBeenCalledWith(
+      'session-id',
+      'user-id',
+      'jti-1',
+      expect.any(String),
+    );
+  });
+
+  it('audits a reused token after its family was revoked', async () => {
+    mockSessionsService.claimRefreshToken.mockResolvedValueOnce({
+      status: 'reused',
+    });
+
+    await expect(strategy.validate(request, payload)).rejects.toThrow(
+      'Refresh token reuse detected, please log in again',
+    );
+    expect(mockAuditService.record).toHaveBeenCalledWith({
+      event: AuditEvent.REFRESH_TOKEN_REUSE,
+      userId: 'user-id',
+      ip: '127.0.0.1',
+      userAgent: 'jest',
+      metadata: { sessionId: 'session-id', tokenId: 'jti-1' },
+    });
+  });
+
+  it('rejects tokens of unknown sessions without an audit entry', async () => {
+    mockSessionsService.claimRefreshToken.mockResolvedValueOnce({
+      status: 'invalid',
+    });
+
+    await expect(strategy.validate(request, payload)).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(mockAuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('refuses access tokens', async () => {
+    await expect(
+      strategy.validate(request, { ...payload, typ: 'access' }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(mockSessionsService.claimRefreshToken).not.toHaveBeenCalled();
+  });
+});
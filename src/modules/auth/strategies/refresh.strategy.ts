@@ -1,48 +1,68 @@
+import { randomUUID } from 'crypto';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy, StrategyOptions } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
-import { UsersService } from '../../users/users.service';
+import { SessionsService } from '../../sessions/sessions.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditEvent } from '../../audit/schemas/audit-log.schema';
 import type { Request } from 'express';
-import { JwtConfig } from '../../../config/jwt.config';
-import { JwtPayload, JwtUser } from 'src/common/types/auth.types';
+import { JWT_ALGORITHMS, JwtKeysService } from '../jwt-keys.service';
+import { JwtPayload, SessionUser } from 'src/common/types/auth.types';
 
 @Injectable()
 export class RefreshStrategy extends PassportStrategy(Strategy, 'jwt-refresh') {
   constructor(
-    private readonly configService: ConfigService,
-    private readonly usersService: UsersService,
+    jwtKeysService: JwtKeysService,
+    private readonly sessionsService: SessionsService,
+    private readonly auditService: AuditService,
   ) {
-    const jwtConfig = configService.get<JwtConfig>('jwt')!;
-
     const options: StrategyOptions = {
       jwtFromRequest: ExtractJwt.fromExtractors([
+        // Clients using body token delivery post their refresh token.
+        ExtractJwt.fromBodyField('refreshToken'),
         (request: Request): string | null => {
           const cookies = request.cookies as Record<string, string | undefined>;
           return cookies['refreshToken'] ?? null;
         },
       ]),
-      secretOrKey: jwtConfig.refreshSecret,
+      algorithms: JWT_ALGORITHMS,
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        const key = jwtKeysService.getVerificationKey(rawJwtToken);
+        if (!key) return done(new UnauthorizedException('Unknown signing key'));
+        done(null, key);
+      },
       passReqToCallback: true,
     };
 
     super(options);
   }
 
-  async validate(request: Request, payload: JwtPayload): Promise<JwtUser> {
-    const cookies = request.cookies as Record<string, string | undefined>;
-    const refreshToken = cookies['refreshToken'];
-
-    if (!refreshToken) {
-      throw new UnauthorizedException('Refresh token missing');
+  async validate(request: Request, payload: JwtPayload): Promise<SessionUser> {
+    if (payload.typ !== 'refresh' || !payload.jti) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
     }
 
-    const isValid = await this.usersService.validateRefreshToken(
+    const claim = await this.sessionsService.claimRefreshToken(
+      payload.sid,
       payload.sub,
-      refreshToken,
+      payload.jti,
+      randomUUID(),
     );
 
-    if (!isValid) {
+    if (claim.status === 'reused') {
+      await this.auditService.record({
+        event: AuditEvent.REFRESH_TOKEN_REUSE,
+        userId: payload.sub,
+        ip: request.ip ?? null,
+        userAgent: request.headers['user-agent'] ?? null,
+        metadata: { sessionId: payload.sid, tokenId: payload.jti },
+      });
+      throw new UnauthorizedException(
+        'Refresh token reuse detected, please log in again',
+      );
+    }
+
+    if (claim.status !== 'claimed') {
       throw new UnauthorizedException('Invalid or expired refresh token');
     }
 
@@ -50,6 +70,11 @@ export class RefreshStrategy extends PassportStrategy(Strategy, 'jwt-refresh') {
       userId: payload.sub,
       email: payload.email,
       role: payload.role,
+      sessionId: payload.sid,
+      twoFactorVerified: payload.mfa,
+      authMethod: 'session',
+      organizationId: payload.org,
+      refreshTokenId: claim.refreshTokenId,
     };
   }
 }
@@ -0,0 +1,67 @@
+import type { Response } from 'express';
+import { respondWithLogin } from './token-delivery';
+import { TokenDelivery } from '../users/dto/login.dto';
+import { AuthenticatedLogin } from './auth.service';
+import { SafeUser } from '../users/types/user.types';
+
+describe('respondWithLogin', () => {
+  const res = { cookie: jest.fn() };
+  const user = { _id: 'user-id', email: 'user@example.com' } as SafeUser;
+  const login: AuthenticatedLogin = {
+    twoFactorRequired: false,
+    user,
+    accessToken: 'access-jwt',
+    refreshToken: 'refresh-jwt',
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('sets http-only cookies and keeps tokens out of the body', () => {
+    const response = respondWithLogin(
+      res as unknown as Response,
+      login,
+      undefined,
+    );
+
+    expect(response.data).toEqual({ user });
+    expect(res.cookie).toHaveBeenCalledWith(
+      'accessToken',
+      'access-jwt',
+      expect.objectContaining({ httpOnly: true, sameSite: 'strict' }),
+    );
+    expect(res.cookie).toHaveBeenCalledWith(
+      'refreshToken',
+      'refresh-jwt',
+      expect.objectContaining({ httpOnly: true, sameSite: 'strict' }),
+    );
+  });
+
+  it('returns the tokens in the body without cookies on request', () => {
+    const response = respondWithLogin(
+      res as unknown as Response,
+      login,
+      TokenDelivery.BODY,
+    );
+
+    expect(response.data).toEqual({
+      user,
+      accessToken: 'access-jwt',
+      refreshToken: 'refresh-jwt',
+    });
+    expect(res.cookie).not.toHaveBeenCalled();
+  });
+
+  it('hands out neither until the second factor is verified', () => {
+    const response = respondWithLogin(
+      res as unknown as Response,
+      { twoFactorRequired: true, challengeToken: 'challenge' },
+      TokenDelivery.BODY,
+    );
+
+    expect(response.data).toEqual({
+      twoFactorRequired: true,
+      challengeToken: 'challenge',
+    });
+    expect(res.cookie).not.toHaveBeenCalled();
+  });
+});
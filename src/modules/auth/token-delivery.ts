@@ -0,0 +1,65 @@
+import type { Response } from 'express';
+import { ApiResponse } from '../../common/types/global';
+import { SafeUser } from '../users/types/user.types';
+import { TokenDelivery } from '../users/dto/login.dto';
+import type { LoginResult, TokenPair } from './auth.service';
+
+const ACCESS_MAX_AGE = 15 * 60 * 1000;
+const REFRESH_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+export function buildCookieOptions(maxAge: number) {
+  return {
+    httpOnly: true,
+    secure: process.env['NODE_ENV'] === 'production',
+    sameSite: 'strict' as const,
+    maxAge,
+  };
+}
+
+export function setAuthCookies(
+  res: Response,
+  tokens: { accessToken: string; refreshToken: string },
+): void {
+  res.cookie(
+    'accessToken',
+    tokens.accessToken,
+    buildCookieOptions(ACCESS_MAX_AGE),
+  );
+  res.cookie(
+    'refreshToken',
+    tokens.refreshToken,
+    buildCookieOptions(REFRESH_MAX_AGE),
+  );
+}
+
+export type LoginResponse =
+  | { user: SafeUser }
+  | ({ user: SafeUser } & TokenPair)
+  | { twoFactorRequired: true; challengeToken: string };
+
+/**
+ * Hands out the tokens of a completed login as cookies, or in the body for
+ * clients that asked for `tokenDelivery: "body"`.
+ */
+export function respondWithLogin(
+  res: Response,
+  result: LoginResult,
+  tokenDelivery: TokenDelivery | undefined,
+): ApiResponse<LoginResponse> {
+  // No cookies until the second factor has been verified via /auth/2fa/verify.
+  if (result.twoFactorRequired) {
+    return ApiResponse.success(
+      { twoFactorRequired: true, challengeToken: result.challengeToken },
+      'Two-factor authentication required',
+    );
+  }
+
+  if (tokenDelivery === TokenDelivery.BODY) {
+    const { accessToken, refreshToken, user } = result;
+    return ApiResponse.success({ user, accessToken, refreshToken });
+  }
+
+  setAuthCookies(res, result);
+
+  return ApiResponse.success({ user: result.user });
+}
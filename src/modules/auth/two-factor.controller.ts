@@ -0,0 +1,48 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { TwoFactorEnrollment, TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { ApiResponse } from '../../common/types/global';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { JwtUser } from '../../common/types/auth.types';
+import { DisallowImpersonation } from '../../common/decorators/disallow-impersonation.decorator';
+
+@Controller('auth/2fa')
+@DisallowImpersonation()
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Post('enroll')
+  @HttpCode(HttpStatus.OK)
+  async enroll(
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<TwoFactorEnrollment>> {
+    const data = await this.twoFactorService.enroll(user.userId);
+    return ApiResponse.success(data);
+  }
+
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirm(
+    @CurrentUser() user: JwtUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<ApiResponse<{ recoveryCodes: string[] }>> {
+    const recoveryCodes = await this.twoFactorService.confirm(
+      user.userId,
+      twoFactorCodeDto.code,
+    );
+    return ApiResponse.success(
+      { recoveryCodes },
+      'Two-factor authentication enabled',
+    );
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  async disable(
+    @CurrentUser() user: JwtUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<ApiResponse<null>> {
+    await this.twoFactorService.disable(user.userId, twoFactorCodeDto.code);
+    return ApiResponse.success(null, 'Two-factor authentication disabled');
+  }
+}
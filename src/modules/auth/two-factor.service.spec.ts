@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TwoFactorService } from './two-factor.service';
+import { UsersService } from '../users/users.service';
+import { generateTotp, generateTotpSecret } from '../../common/utils/totp.util';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+
+  const mockUsersService = {
+    findWithTwoFactorSecrets: jest.fn(),
+    enableTwoFactor: jest.fn(),
+    claimTwoFactorStep: jest.fn(),
+    consumeRecoveryCode: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: ConfigService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('confirm', () => {
+    it('should enable 2FA and store only hashed recovery codes', async () => {
+      const secret = generateTotpSecret();
+      mockUsersService.findWithTwoFactorSecrets.mockResolvedValue({
+        twoFactorPendingSecret: secret,
+      });
+
+      const codes = await service.confirm('user-1', generateTotp(secret));
+
+      expect(codes).toHaveLength(10);
+      const [, storedSecret, hashes] = mockUsersService.enableTwoFactor.mock
+        .calls[0] as [string, string, string[]];
+      expect(storedSecret).toBe(secret);
+      expect(hashes).toHaveLength(10);
+      expect(hashes).not.toContain(codes[0]);
+    });
+
+    it('should reject a wrong first code', async () => {
+      mockUsersService.findWithTwoFactorSecrets.mockResolvedValue({
+        twoFactorPendingSecret: generateTotpSecret(),
+      });
+
+      await expect(service.confirm('user-1', '000000')).rejects.toThrow(
+        'Invalid code',
+      );
+      expect(mockUsersService.enableTwoFactor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    const secret = generateTotpSecret();
+
+    beforeEach(() => {
+      mockUsersService.findWithTwoFactorSecrets.mockResolvedValue({
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+      });
+    });
+
+    it('should refuse a TOTP code whose step was already used', async () => {
+      mockUsersService.claimTwoFactorStep.mockResolvedValue(false);
+
+      expect(await service.verify('user-1', generateTotp(secret))).toBe(false);
+    });
+
+    it('should fall back to recovery codes', async () => {
+      mockUsersService.consumeRecoveryCode.mockResolvedValue(true);
+
+      expect(await service.verify('user-1', 'ABCDE-12345')).toBe(true);
+      expect(mockUsersService.claimTwoFactorStep).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { UsersService } from '../users/users.service';
+import { AuthConfig } from '../../config/auth.config';
+import { hashToken } from '../../common/utils/token.util';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from '../../common/utils/totp.util';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async enroll(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.usersService.findById(userId);
+    if (!user) throw new NotFoundException('User not found');
+    if (user.twoFactorEnabled) {
+      throw new ConflictException('Two-factor authentication already enabled');
+    }
+
+    const { twoFactorIssuer } = this.configService.get<AuthConfig>('auth')!;
+    const secret = generateTotpSecret();
+    await this.usersService.setPendingTwoFactorSecret(userId, secret);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(twoFactorIssuer, user.email, secret),
+    };
+  }
+
+  /** Activates the pending secret and returns recovery codes, shown once. */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const user = await this.usersService.findWithTwoFactorSecrets(userId);
+    if (!user?.twoFactorPendingSecret) {
+      throw new BadRequestException('Two-factor enrollment not started');
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) throw new BadRequestException('Invalid code');
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      this.generateRecoveryCode(),
+    );
+    await this.usersService.enableTwoFactor(
+      userId,
+      user.twoFactorPendingSecret,
+      recoveryCodes.map((recoveryCode) =>
+        hashToken(this.normalizeRecoveryCode(recoveryCode)),
+      ),
+      step,
+    );
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    if (!(await this.verify(userId, code))) {
+      throw new BadRequestException('Invalid code');
+    }
+    await this.usersService.disableTwoFactor(userId);
+  }
+
+  /**
+   * Accepts either a current TOTP code or one of the recovery codes; both are
+   * single-use.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const user = await this.usersService.findWithTwoFactorSecrets(userId);
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    const step = verifyTotp(user.twoFactorSecret, code.trim());
+    if (step !== null) {
+      return this.usersService.claimTwoFactorStep(userId, step);
+    }
+
+    return this.usersService.consumeRecoveryCode(
+      userId,
+      hashToken(this.normalizeRecoveryCode(code)),
+    );
+  }
+
+  private generateRecoveryCode(): string {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  private normalizeRecoveryCode(code: string): string {
+    return code.trim().toLowerCase().replace(/-/g, '');
+  }
+}
@@ -0,0 +1,19 @@
+import type { JsonWebKey } from 'crypto';
+import type { Algorithm } from 'jsonwebtoken';
+
+export interface SigningKey {
+  kid: string;
+  algorithm: Algorithm;
+  /** PKCS#8 PEM. */
+  privateKey: string;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: Algorithm;
+  use: 'sig';
+}
+
+export interface Jwks {
+  keys: PublicJwk[];
+}
@@ -0,0 +1,11 @@
+import { IsEmail, IsEnum, IsOptional } from 'class-validator';
+import { OrgRole } from '../schemas/membership.schema';
+
+export class AddMemberDto {
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsEnum(OrgRole)
+  role?: OrgRole;
+}
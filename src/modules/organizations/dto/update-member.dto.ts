@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { OrgRole } from '../schemas/membership.schema';
+
+export class UpdateMemberDto {
+  @IsEnum(OrgRole)
+  role!: OrgRole;
+}
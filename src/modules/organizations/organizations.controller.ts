@@ -0,0 +1,122 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { AddMemberDto } from './dto/add-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { SafeMember, SafeOrganization } from './types/organization.types';
+import { ApiResponse } from '../../common/types/global';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { JwtUser } from '../../common/types/auth.types';
+
+@Controller('organizations')
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: JwtUser,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+  ): Promise<ApiResponse<SafeOrganization>> {
+    const data = await this.organizationsService.create(
+      user.userId,
+      createOrganizationDto,
+    );
+    return ApiResponse.success(data, 'Organization created');
+  }
+
+  @Get()
+  async findMine(
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<SafeOrganization[]>> {
+    const data = await this.organizationsService.findForUser(user.userId);
+    return ApiResponse.success(data);
+  }
+
+  @Get(':id')
+  async findOne(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<SafeOrganization>> {
+    const data = await this.organizationsService.findOne(id, user.userId);
+    return ApiResponse.success(data);
+  }
+
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+  ): Promise<ApiResponse<SafeOrganization>> {
+    const data = await this.organizationsService.update(
+      id,
+      user.userId,
+      updateOrganizationDto,
+    );
+    return ApiResponse.success(data, 'Organization updated');
+  }
+
+  @Get(':id/members')
+  async findMembers(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<SafeMember[]>> {
+    const data = await this.organizationsService.findMembers(id, user.userId);
+    return ApiResponse.success(data);
+  }
+
+  @Post(':id/members')
+  @HttpCode(HttpStatus.CREATED)
+  async addMember(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+    @Body() addMemberDto: AddMemberDto,
+  ): Promise<ApiResponse<SafeMember>> {
+    const data = await this.organizationsService.addMember(
+      id,
+      user.userId,
+      addMemberDto,
+    );
+    return ApiResponse.success(data, 'Member added');
+  }
+
+  @Patch(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async updateMember(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberDto: UpdateMemberDto,
+  ): Promise<ApiResponse<SafeMember>> {
+    const data = await this.organizationsService.updateMember(
+      id,
+      user.userId,
+      userId,
+      updateMemberDto.role,
+    );
+    return ApiResponse.success(data, 'Member updated');
+  }
+
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async removeMember(
+    @CurrentUser() user: JwtUser,
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+  ): Promise<ApiResponse<null>> {
+    await this.organizationsService.removeMember(id, user.userId, userId);
+    return ApiResponse.success(null, 'Member removed');
+  }
+}
@@ -0,0 +1,25 @@
+import { forwardRef, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { TenantInterceptor } from './tenant.interceptor';
+import {
+  Organization,
+  OrganizationSchema,
+} from './schemas/organization.schema';
+import { Membership, MembershipSchema } from './schemas/membership.schema';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [
+    forwardRef(() => UsersModule),
+    MongooseModule.forFeature([
+      { name: Organization.name, schema: OrganizationSchema },
+      { name: Membership.name, schema: MembershipSchema },
+    ]),
+  ],
+  controllers: [OrganizationsController],
+  providers: [OrganizationsService, TenantInterceptor],
+  exports: [OrganizationsService, TenantInterceptor],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Types } from 'mongoose';
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './schemas/organization.schema';
+import { Membership, OrgRole } from './schemas/membership.schema';
+import { UsersService } from '../users/users.service';
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+
+  const organizationId = '64b7f0c2a1b2c3d4e5f60701';
+  const ownerId = '64b7f0c2a1b2c3d4e5f60702';
+  const adminId = '64b7f0c2a1b2c3d4e5f60703';
+  const memberId = '64b7f0c2a1b2c3d4e5f60704';
+
+  const mockOrganizationModel = {
+    create: jest.fn(),
+    findById: jest.fn(),
+    exists: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockMembershipModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+  };
+
+  const membership = (userId: string, role: OrgRole) => ({
+    organization: new Types.ObjectId(organizationId),
+    user: new Types.ObjectId(userId),
+    role,
+    createdAt: new Date(),
+    save: jest.fn(),
+    deleteOne: jest.fn(),
+  });
+
+  // findOne is only used to look up memberships by user.
+  const withMembers = (...members: ReturnType<typeof membership>[]) => {
+    mockMembershipModel.findOne.mockImplementation(
+      ({ user }: { user: Types.ObjectId }) => ({
+        exec: () =>
+          Promise.resolve(members.find((m) => m.user.equals(user)) ?? null),
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        {
+          provide: getModelToken(Organization.name),
+          useValue: mockOrganizationModel,
+        },
+        {
+          provide: getModelToken(Membership.name),
+          useValue: mockMembershipModel,
+        },
+        { provide: UsersService, useValue: mockUsersService },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationsService>(OrganizationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('makes the creator the owner', async () => {
+      mockOrganizationModel.create.mockResolvedValue({
+        _id: new Types.ObjectId(organizationId),
+        id: organizationId,
+        name: 'Acme',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await service.create(ownerId, { name: 'Acme' });
+
+      expect(mockMembershipModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ role: OrgRole.OWNER }),
+      );
+      expect(result.role).toBe(OrgRole.OWNER);
+    });
+  });
+
+  describe('assertMember', () => {
+    it('hides organizations from non-members', async () => {
+      withMembers();
+
+      await expect(
+        service.assertMember(organizationId, memberId),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('enforces the minimum role', async () => {
+      withMembers(membership(memberId, OrgRole.MEMBER));
+
+      await expect(
+        service.assertMember(organizationId, memberId, OrgRole.ADMIN),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('addMember', () => {
+    it('does not let admins grant ownership', async () => {
+      withMembers(membership(adminId, OrgRole.ADMIN));
+
+      await expect(
+        service.addMember(organizationId, adminId, {
+          email: 'new@example.com',
+          role: OrgRole.OWNER,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockMembershipModel.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects existing members', async () => {
+      withMembers(
+        membership(adminId, OrgRole.ADMIN),
+        membership(memberId, OrgRole.MEMBER),
+      );
+      mockUsersService.findByEmail.mockResolvedValue({
+        _id: new Types.ObjectId(memberId),
+        id: memberId,
+        isActive: true,
+      });
+
+      await expect(
+        service.addMember(organizationId, adminId, {
+          email: 'member@example.com',
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('updateMember', () => {
+    it('keeps the last owner', async () => {
+      withMembers(membership(ownerId, OrgRole.OWNER));
+      mockMembershipModel.countDocuments.mockResolvedValue(1);
+
+      await expect(
+        service.updateMember(organizationId, ownerId, ownerId, OrgRole.ADMIN),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('does not let admins manage other admins', async () => {
+      withMembers(
+        membership(adminId, OrgRole.ADMIN),
+        membership(ownerId, OrgRole.ADMIN),
+      );
+
+      await expect(
+        service.updateMember(organizationId, adminId, ownerId, OrgRole.MEMBER),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('removeMember', () => {
+    it('lets members leave', async () => {
+      const own = membership(memberId, OrgRole.MEMBER);
+      withMembers(own);
+
+      await service.removeMember(organizationId, memberId, memberId);
+
+      expect(own.deleteOne).toHaveBeenCalled();
+    });
+
+    it('does not let members remove others', async () => {
+      withMembers(
+        membership(memberId, OrgRole.MEMBER),
+        membership(adminId, OrgRole.ADMIN),
+      );
+
+      await expect(
+        service.removeMember(organizationId, memberId, adminId),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('assertNotSoleOwner', () => {
+    const owned = (...memberships: ReturnType<typeof membership>[]) =>
+      mockMembershipModel.find.mockReturnValue({
+        exec: () => Promise.resolve(memberships),
+      });
+
+    it('names the organizations only the user owns', async () => {
+      owned(membership(ownerId, OrgRole.OWNER));
+      mockMembershipModel.countDocuments.mockResolvedValue(1);
+      mockOrganizationModel.find.mockReturnValue({
+        sort: () => ({ exec: () => Promise.resolve([{ name: 'Acme' }]) }),
+      });
+
+      await expect(service.assertNotSoleOwner(ownerId)).rejects.toThrow(
+        new ConflictException(
+          'You are the only owner of Acme; transfer ownership first',
+        ),
+      );
+    });
+
+    it('passes when every owned organization has another owner', async () => {
+      owned(membership(ownerId, OrgRole.OWNER));
+      mockMembershipModel.countDocuments.mockResolvedValue(2);
+
+      await expect(
+        service.assertNotSoleOwner(ownerId),
+      ).resolves.toBeUndefined();
+      expect(mockOrganizationModel.find).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import {
+  Organization,
+  OrganizationDocument,
+} from './schemas/organization.schema';
+import {
+  Membership,
+  MembershipDocument,
+  ORG_ROLE_RANK,
+  OrgRole,
+} from './schemas/membership.schema';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { UpdateOrganizationDto } from './dto/update-organization.dto';
+import { AddMemberDto } from './dto/add-member.dto';
+import { SafeMember, SafeOrganization } from './types/organization.types';
+import { UsersService } from '../users/users.service';
+
+interface PopulatedMember {
+  _id: Types.ObjectId;
+  firstName: string;
+  lastName: string;
+  email: string;
+  deletedAt: Date | null;
+}
+
+@Injectable()
+export class OrganizationsService {
+  constructor(
+    @InjectModel(Organization.name)
+    private readonly organizationModel: Model<OrganizationDocument>,
+    @InjectModel(Membership.name)
+    private readonly membershipModel: Model<MembershipDocument>,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateOrganizationDto,
+  ): Promise<SafeOrganization> {
+    const organization = await this.organizationModel.create({
+      name: dto.name,
+      createdBy: new Types.ObjectId(userId),
+    });
+    await this.membershipModel.create({
+      organization: organization._id,
+      user: new Types.ObjectId(userId),
+      role: OrgRole.OWNER,
+    });
+    return this.toSafeOrganization(organization, OrgRole.OWNER);
+  }
+
+  async findForUser(userId: string): Promise<SafeOrganization[]> {
+    const memberships = await this.membershipModel
+      .find({ user: new Types.ObjectId(userId) })
+      .exec();
+    const organizations = await this.organizationModel
+      .find({ _id: { $in: memberships.map((m) => m.organization) } })
+      .sort({ name: 1 })
+      .exec();
+    const roles = new Map(
+      memberships.map((m) => [m.organization.toString(), m.role]),
+    );
+    return organizations.map((organization) =>
+      this.toSafeOrganization(
+        organization,
+        roles.get(organization.id) ?? OrgRole.MEMBER,
+      ),
+    );
+  }
+
+  async findOne(
+    organizationId: string,
+    userId: string,
+  ): Promise<SafeOrganization> {
+    const membership = await this.assertMember(organizationId, userId);
+    const organization = await this.findOrganization(organizationId);
+    return this.toSafeOrganization(organization, membership.role);
+  }
+
+  async update(
+    organizationId: string,
+    userId: string,
+    dto: UpdateOrganizationDto,
+  ): Promise<SafeOrganization> {
+    const membership = await this.assertMember(
+      organizationId,
+      userId,
+      OrgRole.ADMIN,
+    );
+    const organization = await this.findOrganization(organizationId);
+    organization.name = dto.name;
+    await organization.save();
+    return this.toSafeOrganization(organization, membership.role);
+  }
+
+  async exists(organizationId: string): Promise<boolean> {
+    if (!isValidObjectId(organizationId)) return false;
+    return (
+      (await this.organizationModel.exists({ _id: organizationId })) !== null
+    );
+  }
+
+  async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<MembershipDocument | null> {
+    if (!isValidObjectId(organizationId)) return null;
+    return this.membershipModel
+      .findOne({
+        organization: new Types.ObjectId(organizationId),
+        user: new Types.ObjectId(userId),
+      })
+      .exec();
+  }
+
+  /** Returns the subset of `userIds` that belong to the organization. */
+  async filterMembers(
+    organizationId: string,
+    userIds: string[],
+  ): Promise<string[]> {
+    const memberships = await this.membershipModel
+      .find({
+        organization: new Types.ObjectId(organizationId),
+        user: { $in: userIds.map((id) => new Types.ObjectId(id)) },
+      })
+      .exec();
+    return memberships.map((membership) => membership.user.toString());
+  }
+
+  /**
+   * Returns the caller's membership, or throws if they are not a member or
+   * rank below `minimum`. Non-members get a 404 so organization ids cannot
+   * be probed.
+   */
+  async assertMember(
+    organizationId: string,
+    userId: string,
+    minimum: OrgRole = OrgRole.MEMBER,
+  ): Promise<MembershipDocument> {
+    const membership = await this.findMembership(organizationId, userId);
+    if (!membership) {
+      throw new NotFoundException(`Organization #${organizationId} not found`);
+    }
+    if (ORG_ROLE_RANK[membership.role] < ORG_ROLE_RANK[minimum]) {
+      throw new ForbiddenException(
+        `This action requires the ${minimum} role in the organization`,
+      );
+    }
+    return membership;
+  }
+
+  async findMembers(
+    organizationId: string,
+    userId: string,
+  ): Promise<SafeMember[]> {
+    await this.assertMember(organizationId, userId);
+    const memberships = await this.membershipModel
+      .find({ organization: new Types.ObjectId(organizationId) })
+      .populate<{ user: PopulatedMember | null }>(
+        'user',
+        'firstName lastName email deletedAt',
+      )
+      .sort({ createdAt: 1 })
+      .exec();
+
+    // Deleted accounts keep their membership until purged; hide them.
+    return memberships.flatMap((membership) =>
+      membership.user && !membership.user.deletedAt
+        ? [this.toSafeMember(membership.user, membership)]
+        : [],
+    );
+  }
+
+  async addMember(
+    organizationId: string,
+    actorId: string,
+    dto: AddMemberDto,
+  ): Promise<SafeMember> {
+    const actor = await this.assertMember(
+      organizationId,
+      actorId,
+      OrgRole.ADMIN,
+    );
+    const role = dto.role ?? OrgRole.MEMBER;
+    this.assertCanAssign(actor, role);
+
+    const user = await this.usersService.findByEmail(dto.email);
+    if (!user || !user.isActive) {
+      throw new NotFoundException('No active user with that email address');
+    }
+    if (await this.findMembership(organizationId, user.id)) {
+      throw new ConflictException('User is already a member');
+    }
+
+    const membership = await this.membershipModel.create({
+      organization: new Types.ObjectId(organizationId),
+      user: user._id,
+      role,
+    });
+    return this.toSafeMember(user, membership);
+  }
+
+  async updateMember(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+    role: OrgRole,
+  ): Promise<SafeMember> {
+    const actor = await this.assertMember(
+      organizationId,
+      actorId,
+      OrgRole.ADMIN,
+    );
+    const membership = await this.findTargetMembership(organizationId, userId);
+    this.assertCanManage(actor, membership);
+    this.assertCanAssign(actor, role);
+    if (membership.role === OrgRole.OWNER && role !== OrgRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    membership.role = role;
+    await membership.save();
+
+    const user = await this.usersService.findById(userId);
+    if (!user) throw new NotFoundException(`User #${userId} not found`);
+    return this.toSafeMember(user, membership);
+  }
+
+  /** Removes a member; any member may also remove themselves (leave). */
+  async removeMember(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+  ): Promise<void> {
+    const membership = await this.findTargetMembership(organizationId, userId);
+    if (actorId !== userId) {
+      const actor = await this.assertMember(
+        organizationId,
+        actorId,
+        OrgRole.ADMIN,
+      );
+      this.assertCanManage(actor, membership);
+    }
+    if (membership.role === OrgRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+    await membership.deleteOne();
+  }
+
+  /**
+   * Refuses while the user is the only owner of an organization, which
+   * deleting their account would leave without one.
+   */
+  async assertNotSoleOwner(userId: string): Promise<void> {
+    const owned = await this.membershipModel
+      .find({ user: new Types.ObjectId(userId), role: OrgRole.OWNER })
+      .exec();
+
+    const soleOwned: Types.ObjectId[] = [];
+    for (const membership of owned) {
+      const owners = await this.membershipModel.countDocuments({
+        organization: membership.organization,
+        role: OrgRole.OWNER,
+      });
+      if (owners <= 1) soleOwned.push(membership.organization);
+    }
+    if (soleOwned.length === 0) return;
+
+    const organizations = await this.organizationModel
+      .find({ _id: { $in: soleOwned } })
+      .sort({ name: 1 })
+      .exec();
+    throw new ConflictException(
+      `You are the only owner of ${organizations.map((o) => o.name).join(', ')}; transfer ownership first`,
+    );
+  }
+
+  /** Drops every membership of the given users; used for deleted accounts. */
+  async removeAllMemberships(userIds: string[]): Promise<void> {
+    await this.membershipModel.deleteMany({
+      user: { $in: userIds.map((id) => new Types.ObjectId(id)) },
+    });
+  }
+
+  private async findOrganization(
+    organizationId: string,
+  ): Promise<OrganizationDocument> {
+    const organization = await this.organizationModel
+      .findById(organizationId)
+      .exec();
+    if (!organization) {
+      throw new NotFoundException(`Organization #${organizationId} not found`);
+    }
+    return organization;
+  }
+
+  private async findTargetMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<MembershipDocument> {
+    const membership = isValidObjectId(userId)
+      ? await this.findMembership(organizationId, userId)
+      : null;
+    if (!membership) {
+      throw new NotFoundException(`Member #${userId} not found`);
+    }
+    return membership;
+  }
+
+  // Owners can manage anyone; admins only manage plain members.
+  private assertCanManage(
+    actor: MembershipDocument,
+    target: MembershipDocument,
+  ): void {
+    if (
+      actor.role !== OrgRole.OWNER &&
+      ORG_ROLE_RANK[target.role] >= ORG_ROLE_RANK[actor.role]
+    ) {
+      throw new ForbiddenException(
+        'You cannot manage a member with the same or a higher role',
+      );
+    }
+  }
+
+  private assertCanAssign(actor: MembershipDocument, role: OrgRole): void {
+    if (ORG_ROLE_RANK[role] > ORG_ROLE_RANK[actor.role]) {
+      throw new ForbiddenException(
+        'You cannot grant a role higher than your own',
+      );
+    }
+  }
+
+  private async assertNotLastOwner(organizationId: string): Promise<void> {
+    const owners = await this.membershipModel.countDocuments({
+      organization: new Types.ObjectId(organizationId),
+      role: OrgRole.OWNER,
+    });
+    if (owners <= 1) {
+      throw new BadRequestException(
+        'An organization must keep at least one owner',
+      );
+    }
+  }
+
+  private toSafeOrganization(
+    organization: OrganizationDocument,
+    role: OrgRole,
+  ): SafeOrganization {
+    return {
+      _id: organization.id,
+      name: organization.name,
+      role,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt,
+    };
+  }
+
+  private toSafeMember(
+    user: Omit<PopulatedMember, 'deletedAt'>,
+    membership: { role: OrgRole; createdAt: Date },
+  ): SafeMember {
+    return {
+      userId: user._id.toString(),
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: membership.role,
+      joinedAt: membership.createdAt,
+    };
+  }
+}
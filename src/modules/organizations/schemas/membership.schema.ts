@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { Organization } from './organization.schema';
+
+export type MembershipDocument = HydratedDocument<Membership>;
+
+export enum OrgRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+// Higher rank can manage lower ranks; admins and owners manage membership.
+export const ORG_ROLE_RANK: Record<OrgRole, number> = {
+  [OrgRole.MEMBER]: 0,
+  [OrgRole.ADMIN]: 1,
+  [OrgRole.OWNER]: 2,
+};
+
+@Schema({ timestamps: true })
+export class Membership {
+  @Prop({ type: Types.ObjectId, ref: Organization.name, required: true })
+  organization!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true, index: true })
+  user!: Types.ObjectId;
+
+  @Prop({ type: String, enum: OrgRole, default: OrgRole.MEMBER })
+  role!: OrgRole;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const MembershipSchema = SchemaFactory.createForClass(Membership);
+
+MembershipSchema.index({ organization: 1, user: 1 }, { unique: true });
@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type OrganizationDocument = HydratedDocument<Organization>;
+
+@Schema({ timestamps: true })
+export class Organization {
+  @Prop({ required: true, trim: true })
+  name!: string;
+
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true })
+  createdBy!: Types.ObjectId;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const OrganizationSchema = SchemaFactory.createForClass(Organization);
@@ -0,0 +1,95 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { firstValueFrom, Observable } from 'rxjs';
+import { TenantInterceptor } from './tenant.interceptor';
+import { OrganizationsService } from './organizations.service';
+import { getTenant } from '../../common/tenancy/tenant-context';
+import { OrganizationRequiredException } from '../../common/exceptions/organization-required.exception';
+import { JwtUser } from '../../common/types/auth.types';
+
+describe('TenantInterceptor', () => {
+  const organizationId = '64b7f0c2a1b2c3d4e5f60701';
+  const user: JwtUser = {
+    userId: '64b7f0c2a1b2c3d4e5f60702',
+    email: 'user@example.com',
+    role: 'user',
+    sessionId: 'session-1',
+    twoFactorVerified: false,
+    authMethod: 'session',
+    organizationId: '64b7f0c2a1b2c3d4e5f60799',
+  };
+
+  const mockOrganizationsService = {
+    assertMember: jest.fn(),
+    exists: jest.fn(),
+  };
+  const interceptor = new TenantInterceptor(
+    mockOrganizationsService as unknown as OrganizationsService,
+  );
+
+  const contextFor = (request: object) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => request }),
+    }) as unknown as ExecutionContext;
+
+  // Reports the tenant visible to the handler.
+  const handler: CallHandler = {
+    handle: () => new Observable((s) => s.next(getTenant())),
+  };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('prefers the header and checks membership', async () => {
+    mockOrganizationsService.assertMember.mockResolvedValue({ role: 'admin' });
+
+    const result = await interceptor.intercept(
+      contextFor({ headers: { 'x-org-id': organizationId }, user }),
+      handler,
+    );
+
+    await expect(firstValueFrom(result)).resolves.toEqual({
+      organizationId,
+      role: 'admin',
+    });
+    expect(mockOrganizationsService.assertMember).toHaveBeenCalledWith(
+      organizationId,
+      user.userId,
+    );
+  });
+
+  it('falls back to the token claim', async () => {
+    mockOrganizationsService.assertMember.mockResolvedValue({
+      role: 'member',
+    });
+
+    const result = await interceptor.intercept(
+      contextFor({ headers: {}, user }),
+      handler,
+    );
+
+    await expect(firstValueFrom(result)).resolves.toEqual({
+      organizationId: user.organizationId,
+      role: 'member',
+    });
+  });
+
+  it('lets public requests into existing organizations', async () => {
+    mockOrganizationsService.exists.mockResolvedValue(true);
+
+    const result = await interceptor.intercept(
+      contextFor({ headers: { 'x-org-id': organizationId } }),
+      handler,
+    );
+
+    await expect(firstValueFrom(result)).resolves.toEqual({
+      organizationId,
+      role: null,
+    });
+    expect(mockOrganizationsService.assertMember).not.toHaveBeenCalled();
+  });
+
+  it('requires an organization', async () => {
+    await expect(
+      interceptor.intercept(contextFor({ headers: {} }), handler),
+    ).rejects.toThrow(OrganizationRequiredException);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  NotFoundException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { OrganizationsService } from './organizations.service';
+import { runInTenant } from '../../common/tenancy/tenant-context';
+import { OrganizationRequiredException } from '../../common/exceptions/organization-required.exception';
+import type { JwtUser } from '../../common/types/auth.types';
+
+export const ORG_HEADER = 'x-org-id';
+
+/**
+ * Resolves the active organization for tenant-scoped controllers and runs
+ * the handler inside it. The `X-Org-Id` header wins over the token's `org`
+ * claim; authenticated callers must be members. Public routes have no user,
+ * so they only need the organization to exist.
+ */
+@Injectable()
+export class TenantInterceptor implements NestInterceptor {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: JwtUser }>();
+    const header = request.headers[ORG_HEADER];
+    const organizationId =
+      (typeof header === 'string' && header.trim()) ||
+      request.user?.organizationId;
+    if (!organizationId) throw new OrganizationRequiredException();
+
+    let role: string | null = null;
+    if (request.user) {
+      const membership = await this.organizationsService.assertMember(
+        organizationId,
+        request.user.userId,
+      );
+      role = membership.role;
+    } else if (!(await this.organizationsService.exists(organizationId))) {
+      throw new NotFoundException(`Organization #${organizationId} not found`);
+    }
+
+    return new Observable((subscriber) =>
+      runInTenant({ organizationId, role }, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { OrgRole } from '../schemas/membership.schema';
+
+export interface SafeOrganization {
+  _id: string;
+  name: string;
+  /** The requesting user's role in the organization. */
+  role: OrgRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SafeMember {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: Date;
+}
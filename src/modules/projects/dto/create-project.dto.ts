@@ -1,6 +1,7 @@
 import {
   IsArray,
   IsEnum,
+  IsMongoId,
   IsNotEmpty,
   IsNumber,
   IsOptional,
@@ -64,4 +65,19 @@ export class CreateProjectDto {
   @IsOptional()
   @IsEnum(ProjectStatus)
   status?: ProjectStatus;
-}
\ No newline at end of file
+
+  // User ids; multipart sends them as a comma-separated list.
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  @Transform(({ value }: { value: unknown }): string[] | string => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+    }
+    return value as string[] | string;
+  })
+  collaborators?: string[];
+}
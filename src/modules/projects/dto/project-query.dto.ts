@@ -1,29 +1,180 @@
-import { Type } from 'class-transformer';
-import { IsEnum, IsNumber, IsOptional, IsString, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 import { ProjectStatus } from '../schemas/project.schema';
+import { SortOrder } from '../../../common/types/query.types';
+import { IsAtLeast } from '../../../common/validators/is-at-least.validator';
+
+export enum SearchMode {
+  /** Stemmed, ranked search on the text index. */
+  TEXT = 'text',
+  /** Case-insensitive substring match, for partial words and symbols. */
+  LITERAL = 'literal',
+}
+
+export enum ProjectSortField {
+  /** Text-search score; requires `search` in text mode. */
+  RELEVANCE = 'relevance',
+  CREATED_AT = 'createdAt',
+  UPDATED_AT = 'updatedAt',
+  TITLE = 'title',
+  STARTING_DATE = 'startingDate',
+  TEAM_MEMBER = 'teamMember',
+}
+
+export enum TagMatch {
+  /** At least one of the tags. */
+  ANY = 'any',
+  /** Every one of the tags. */
+  ALL = 'all',
+}
+
+export const MAX_PROJECT_PAGE_SIZE = 100;
+
+// `?status=Pending,Starting` and `?status=Pending&status=Starting` both
+// arrive as an array.
+const toList = ({ value }: { value: unknown }): unknown =>
+  typeof value === 'string'
+    ? value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
+const toBoolean = ({ value }: { value: unknown }): unknown =>
+  value === 'true' ? true : value === 'false' ? false : value;
 
 export class ProjectQueryDto {
   @IsOptional()
-  @IsEnum(ProjectStatus)
-  status?: ProjectStatus;
+  @Transform(toList)
+  @IsArray()
+  @IsEnum(ProjectStatus, { each: true })
+  status?: ProjectStatus[];
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsEnum(ProjectStatus, { each: true })
+  excludeStatus?: ProjectStatus[];
 
+  /** Single tag; kept for older clients, same as `tags` with one value. */
   @IsOptional()
   @IsString()
   tag?: string;
 
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsEnum(TagMatch)
+  tagMatch?: TagMatch = TagMatch.ANY;
+
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  excludeTags?: string[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  teamMemberMin?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsAtLeast('teamMemberMin')
+  teamMemberMax?: number;
+
+  /** Compared as text, so stored starting dates must be ISO 8601 too. */
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  startingDateFrom?: string;
+
+  @IsOptional()
+  @IsISO8601({ strict: true })
+  @IsAtLeast('startingDateFrom')
+  startingDateTo?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdFrom?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @IsAtLeast('createdFrom')
+  createdTo?: Date;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasRepoUrl?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  hasBackendLiveUrl?: boolean;
+
   @IsOptional()
   @IsString()
+  @MaxLength(200)
   search?: string;
 
+  @IsOptional()
+  @IsEnum(SearchMode)
+  searchMode?: SearchMode = SearchMode.TEXT;
+
+  @IsOptional()
+  @IsEnum(ProjectSortField)
+  sort?: ProjectSortField = ProjectSortField.CREATED_AT;
+
+  @IsOptional()
+  @IsEnum(SortOrder)
+  order?: SortOrder = SortOrder.DESC;
+
+  /** Ignored when `after` or `before` is set. */
   @IsOptional()
   @Type(() => Number)
-  @IsNumber()
+  @IsInt()
   @Min(1)
   page?: number = 1;
 
   @IsOptional()
   @Type(() => Number)
-  @IsNumber()
+  @IsInt()
   @Min(1)
+  @Max(MAX_PROJECT_PAGE_SIZE)
   limit?: number = 10;
+
+  /** `nextCursor` of a previous response. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  after?: string;
+
+  /** `previousCursor` of a previous response. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  before?: string;
 }
@@ -1,6 +1,7 @@
 import {
   IsArray,
   IsEnum,
+  IsMongoId,
   IsNumber,
   IsOptional,
   IsString,
@@ -66,4 +67,19 @@ export class UpdateProjectDto {
   @IsOptional()
   @IsEnum(ProjectStatus)
   status?: ProjectStatus;
-}
\ No newline at end of file
+
+  // Multipart sends a comma-separated list; an empty value clears it.
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  @Transform(({ value }: { value: unknown }): string[] | undefined => {
+    if (typeof value === 'string') {
+      return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean);
+    }
+    return value as string[] | undefined;
+  })
+  collaborators?: string[];
+}
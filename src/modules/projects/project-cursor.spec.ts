@@ -0,0 +1,68 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { decodeCursor, encodeCursor, keysetFilter } from './project-cursor';
+
+describe('project cursors', () => {
+  const id = new Types.ObjectId().toString();
+
+  it('round-trips dates, strings, numbers and null', () => {
+    for (const value of [new Date('2025-01-02T03:04:05Z'), 'abc', 4, null]) {
+      const cursor = { sort: 'createdAt', order: -1 as const, value, id };
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    }
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(BadRequestException);
+    expect(() =>
+      decodeCursor(
+        Buffer.from(JSON.stringify({ sort: 'title', order: 1 })).toString(
+          'base64url',
+        ),
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  describe('keysetFilter', () => {
+    const objectId = new Types.ObjectId(id);
+
+    it('continues ascending past the value, breaking ties on _id', () => {
+      expect(
+        keysetFilter({ sort: 'title', order: 1, value: 'm', id }, 1, 1),
+      ).toEqual({
+        $or: [{ title: 'm', _id: { $gt: objectId } }, { title: { $gt: 'm' } }],
+      });
+    });
+
+    it('includes nulls after the last value descending', () => {
+      expect(
+        keysetFilter(
+          { sort: 'startingDate', order: -1, value: 'x', id },
+          -1,
+          1,
+        ),
+      ).toEqual({
+        $or: [
+          { startingDate: 'x', _id: { $gt: objectId } },
+          { startingDate: { $lt: 'x' } },
+          { startingDate: null },
+        ],
+      });
+    });
+
+    it('moves from nulls to values ascending', () => {
+      expect(
+        keysetFilter(
+          { sort: 'startingDate', order: 1, value: null, id },
+          1,
+          -1,
+        ),
+      ).toEqual({
+        $or: [
+          { startingDate: null, _id: { $lt: objectId } },
+          { startingDate: { $ne: null } },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+
+export type CursorValue = string | number | Date | null;
+
+/** Position of a project in a listing: its sort key and id. */
+export interface ProjectCursor {
+  sort: string;
+  order: 1 | -1;
+  value: CursorValue;
+  id: string;
+}
+
+/** Encodes a cursor as an opaque, URL-safe string. */
+export function encodeCursor(cursor: ProjectCursor): string {
+  const value =
+    cursor.value instanceof Date
+      ? { date: cursor.value.toISOString() }
+      : cursor.value;
+  return Buffer.from(JSON.stringify({ ...cursor, value })).toString(
+    'base64url',
+  );
+}
+
+export function decodeCursor(encoded: string): ProjectCursor {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  const { sort, order, value, id } = (raw ?? {}) as Record<string, unknown>;
+  if (
+    typeof sort !== 'string' ||
+    (order !== 1 && order !== -1) ||
+    typeof id !== 'string' ||
+    !Types.ObjectId.isValid(id)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as { date?: unknown }).date === 'string'
+  ) {
+    const date = new Date((value as { date: string }).date);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+    return { sort, order, value: date, id };
+  }
+  if (
+    value !== null &&
+    typeof value !== 'string' &&
+    typeof value !== 'number'
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return { sort, order, value, id };
+}
+
+/**
+ * Matches the documents strictly after `cursor` in the ordering
+ * `{ [cursor.sort]: direction, _id: idDirection }`. MongoDB sorts null (and
+ * missing) below every other value, which is mirrored here.
+ */
+export function keysetFilter(
+  cursor: ProjectCursor,
+  direction: 1 | -1,
+  idDirection: 1 | -1,
+): Record<string, unknown> {
+  const { sort: field, value } = cursor;
+  const id = new Types.ObjectId(cursor.id);
+  const branches: Record<string, unknown>[] = [
+    { [field]: value, _id: idDirection === 1 ? { $gt: id } : { $lt: id } },
+  ];
+
+  if (value === null) {
+    // Everything non-null comes after null ascending; nothing descending.
+    if (direction === 1) branches.push({ [field]: { $ne: null } });
+  } else if (direction === 1) {
+    branches.push({ [field]: { $gt: value } });
+  } else {
+    branches.push({ [field]: { $lt: value } }, { [field]: null });
+  }
+
+  return { $or: branches };
+}
@@ -0,0 +1,112 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { compileProjectFilter } from './project-filter';
+import { ProjectQueryDto } from './dto/project-query.dto';
+
+// Mirrors the global ValidationPipe: query strings in, validated DTO out.
+function parse(query: Record<string, string | string[]>): ProjectQueryDto {
+  const dto = plainToInstance(ProjectQueryDto, query);
+  const errors = validateSync(dto, { whitelist: true });
+  if (errors.length) {
+    throw new Error(errors.map((e) => e.property).join(','));
+  }
+  return dto;
+}
+
+describe('compileProjectFilter', () => {
+  it('returns an empty filter without parameters', () => {
+    expect(compileProjectFilter(parse({}))).toEqual({});
+  });
+
+  it('combines included and excluded statuses', () => {
+    expect(
+      compileProjectFilter(
+        parse({ status: 'Pending,Starting', excludeStatus: 'Completed' }),
+      ),
+    ).toEqual({
+      status: { $in: ['Pending', 'Starting'], $nin: ['Completed'] },
+    });
+  });
+
+  it('accepts repeated parameters as well as comma lists', () => {
+    expect(
+      compileProjectFilter(parse({ status: ['Pending', 'Starting'] })),
+    ).toEqual({ status: { $in: ['Pending', 'Starting'] } });
+  });
+
+  it('matches all or any tags, with the legacy tag folded in', () => {
+    expect(
+      compileProjectFilter(
+        parse({ tags: 'nest,mongo', tag: 'ts', tagMatch: 'all' }),
+      ),
+    ).toEqual({ tags: { $all: ['nest', 'mongo', 'ts'] } });
+    expect(
+      compileProjectFilter(parse({ tags: 'nest', excludeTags: 'legacy' })),
+    ).toEqual({ tags: { $in: ['nest'], $nin: ['legacy'] } });
+  });
+
+  it('compiles ranges', () => {
+    expect(
+      compileProjectFilter(
+        parse({
+          teamMemberMin: '2',
+          teamMemberMax: '5',
+          startingDateFrom: '2024-01-01',
+          createdTo: '2025-06-30T00:00:00Z',
+        }),
+      ),
+    ).toEqual({
+      teamMember: { $gte: 2, $lte: 5 },
+      startingDate: { $gte: '2024-01-01' },
+      createdAt: { $lte: new Date('2025-06-30T00:00:00Z') },
+    });
+  });
+
+  it('treats null and empty URLs as absent', () => {
+    expect(
+      compileProjectFilter(
+        parse({ hasRepoUrl: 'true', hasBackendLiveUrl: 'false' }),
+      ),
+    ).toEqual({
+      repoUrl: { $nin: [null, ''] },
+      backendLiveUrl: { $in: [null, ''] },
+    });
+  });
+
+  it('uses the text index by default and escapes literal searches', () => {
+    expect(compileProjectFilter(parse({ search: ' nest ' }))).toEqual({
+      $text: { $search: 'nest' },
+    });
+
+    const pattern = /\(a\+\)\+/i;
+    expect(
+      compileProjectFilter(parse({ search: '(a+)+', searchMode: 'literal' })),
+    ).toEqual({
+      $or: [{ title: pattern }, { description: pattern }, { tags: pattern }],
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects unknown statuses', () => {
+      expect(() => parse({ status: 'Pending,Done' })).toThrow('status');
+    });
+
+    it('rejects inverted ranges', () => {
+      expect(() => parse({ teamMemberMin: '5', teamMemberMax: '2' })).toThrow(
+        'teamMemberMax',
+      );
+      expect(() =>
+        parse({ createdFrom: '2025-02-01', createdTo: '2025-01-01' }),
+      ).toThrow('createdTo');
+    });
+
+    it('rejects non-boolean flags', () => {
+      expect(() => parse({ hasRepoUrl: 'yes' })).toThrow('hasRepoUrl');
+    });
+
+    it('rejects fractional paging', () => {
+      expect(() => parse({ page: '1.5' })).toThrow('page');
+      expect(() => parse({ limit: '2.5' })).toThrow('limit');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { QueryFilter } from 'mongoose';
+import { ProjectDocument } from './schemas/project.schema';
+import { ProjectQueryDto, SearchMode, TagMatch } from './dto/project-query.dto';
+import { escapeRegex } from '../../common/utils/regex.util';
+
+type ProjectFilter = QueryFilter<ProjectDocument>;
+
+interface Range<T> {
+  $gte?: T;
+  $lte?: T;
+}
+
+function range<T>(from: T | undefined, to: T | undefined): Range<T> | null {
+  if (from === undefined && to === undefined) return null;
+  return {
+    ...(from !== undefined && { $gte: from }),
+    ...(to !== undefined && { $lte: to }),
+  };
+}
+
+// Null also matches documents without the field.
+const EMPTY_VALUES = [null, ''];
+
+/**
+ * Compiles the validated listing filters of `ProjectQueryDto` into a
+ * MongoDB filter. Sorting and pagination are left to the caller; the tenant
+ * is added by the model.
+ */
+export function compileProjectFilter(query: ProjectQueryDto): ProjectFilter {
+  const filter: ProjectFilter = {};
+
+  if (query.status?.length || query.excludeStatus?.length) {
+    filter.status = {
+      ...(query.status?.length && { $in: query.status }),
+      ...(query.excludeStatus?.length && { $nin: query.excludeStatus }),
+    };
+  }
+
+  const tags = [...(query.tags ?? []), ...(query.tag ? [query.tag] : [])];
+  if (tags.length || query.excludeTags?.length) {
+    filter.tags = {
+      ...(tags.length &&
+        (query.tagMatch === TagMatch.ALL ? { $all: tags } : { $in: tags })),
+      ...(query.excludeTags?.length && { $nin: query.excludeTags }),
+    };
+  }
+
+  const teamMember = range(query.teamMemberMin, query.teamMemberMax);
+  if (teamMember) filter.teamMember = teamMember;
+
+  const startingDate = range(query.startingDateFrom, query.startingDateTo);
+  if (startingDate) filter.startingDate = startingDate;
+
+  const createdAt = range(query.createdFrom, query.createdTo);
+  if (createdAt) filter.createdAt = createdAt;
+
+  if (query.hasRepoUrl !== undefined) {
+    filter.repoUrl = query.hasRepoUrl
+      ? { $nin: EMPTY_VALUES }
+      : { $in: EMPTY_VALUES };
+  }
+  if (query.hasBackendLiveUrl !== undefined) {
+    filter.backendLiveUrl = query.hasBackendLiveUrl
+      ? { $nin: EMPTY_VALUES }
+      : { $in: EMPTY_VALUES };
+  }
+
+  const term = query.search?.trim();
+  if (term && query.searchMode === SearchMode.LITERAL) {
+    const pattern = new RegExp(escapeRegex(term), 'i');
+    filter.$or = [
+      { title: pattern },
+      { description: pattern },
+      { tags: pattern },
+    ];
+  } else if (term) {
+    filter.$text = { $search: term };
+  }
+
+  return filter;
+}
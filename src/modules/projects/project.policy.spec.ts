@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ProjectPolicy } from './project.policy';
+import { RolesService } from '../roles/roles.service';
+import { Permission } from '../roles/schemas/role.schema';
+import { OrgRole } from '../organizations/schemas/membership.schema';
+import { runInTenant } from '../../common/tenancy/tenant-context';
+import { JwtUser } from '../../common/types/auth.types';
+
+describe('ProjectPolicy', () => {
+  let policy: ProjectPolicy;
+
+  const ownerId = new Types.ObjectId();
+  const collaboratorId = new Types.ObjectId();
+  const project = { createdBy: ownerId, collaborators: [collaboratorId] };
+
+  const userFor = (id: Types.ObjectId | string): JwtUser => ({
+    userId: id.toString(),
+    email: 'user@example.com',
+    role: 'user',
+    sessionId: 'session-1',
+    twoFactorVerified: false,
+    authMethod: 'session',
+  });
+  const stranger = userFor(new Types.ObjectId());
+  const inOrg = (role: OrgRole) => ({
+    organizationId: new Types.ObjectId().toString(),
+    role,
+  });
+
+  const mockRolesService = {
+    getPermissions: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRolesService.getPermissions.mockResolvedValue([
+      Permission.PROJECT_UPDATE,
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectPolicy,
+        { provide: RolesService, useValue: mockRolesService },
+      ],
+    }).compile();
+
+    policy = module.get<ProjectPolicy>(ProjectPolicy);
+  });
+
+  describe('assertCanEdit', () => {
+    it('allows the creator and collaborators', async () => {
+      await expect(
+        policy.assertCanEdit(project, userFor(ownerId)),
+      ).resolves.toBeUndefined();
+      await expect(
+        policy.assertCanEdit(project, userFor(collaboratorId)),
+      ).resolves.toBeUndefined();
+    });
+
+    it('refuses other members', async () => {
+      await expect(
+        runInTenant(inOrg(OrgRole.MEMBER), () =>
+          policy.assertCanEdit(project, stranger),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('allows organization admins', async () => {
+      await expect(
+        runInTenant(inOrg(OrgRole.ADMIN), () =>
+          policy.assertCanEdit(project, stranger),
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('allows holders of project:manage', async () => {
+      mockRolesService.getPermissions.mockResolvedValue([
+        Permission.PROJECT_MANAGE,
+      ]);
+
+      await expect(
+        policy.assertCanEdit(project, stranger),
+      ).resolves.toBeUndefined();
+    });
+
+    it('leaves projects without an owner to admins', async () => {
+      await expect(
+        policy.assertCanEdit(
+          { createdBy: null, collaborators: [] },
+          userFor(ownerId),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('assertCanManage', () => {
+    it('refuses collaborators', async () => {
+      await expect(
+        policy.assertCanManage(project, userFor(collaboratorId)),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('allows the creator', async () => {
+      await expect(
+        policy.assertCanManage(project, userFor(ownerId)),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
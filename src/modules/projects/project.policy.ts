@@ -0,0 +1,56 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RolesService } from '../roles/roles.service';
+import { Permission } from '../roles/schemas/role.schema';
+import { OrgRole } from '../organizations/schemas/membership.schema';
+import { getTenant } from '../../common/tenancy/tenant-context';
+import { JwtUser } from '../../common/types/auth.types';
+
+type ProjectAccess = {
+  createdBy: Types.ObjectId | null;
+  collaborators: Types.ObjectId[];
+};
+
+/**
+ * Who may change a project beyond the route permission: its creator, its
+ * collaborators (edit only), and project admins — organization admins and
+ * owners, or holders of `project:manage`.
+ */
+@Injectable()
+export class ProjectPolicy {
+  constructor(private readonly rolesService: RolesService) {}
+
+  async assertCanEdit(project: ProjectAccess, user: JwtUser): Promise<void> {
+    if (
+      this.isCreator(project, user) ||
+      project.collaborators.some((id) => id.equals(user.userId)) ||
+      (await this.isProjectAdmin(user))
+    ) {
+      return;
+    }
+    throw new ForbiddenException(
+      'Only the project owner, its collaborators or an admin can edit it',
+    );
+  }
+
+  /** Deleting and changing collaborators are reserved to owner and admins. */
+  async assertCanManage(project: ProjectAccess, user: JwtUser): Promise<void> {
+    if (this.isCreator(project, user) || (await this.isProjectAdmin(user))) {
+      return;
+    }
+    throw new ForbiddenException(
+      'Only the project owner or an admin can do this',
+    );
+  }
+
+  private isCreator(project: ProjectAccess, user: JwtUser): boolean {
+    return project.createdBy?.equals(user.userId) ?? false;
+  }
+
+  async isProjectAdmin(user: JwtUser): Promise<boolean> {
+    const orgRole = getTenant()?.role;
+    if (orgRole === OrgRole.OWNER || orgRole === OrgRole.ADMIN) return true;
+    const permissions = await this.rolesService.getPermissions(user.role);
+    return permissions.includes(Permission.PROJECT_MANAGE);
+  }
+}
@@ -5,6 +5,7 @@ import { CloudinaryService } from '../../services/cloudinary/cloudinary.service'
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { ProjectQueryDto } from './dto/project-query.dto';
+import { JwtUser } from '../../common/types/auth.types';
 
 describe('ProjectsController', () => {
   let controller: ProjectsController;
@@ -20,6 +21,15 @@ describe('ProjectsController', () => {
     delete: jest.fn(),
   };
 
+  const user: JwtUser = {
+    userId: '507f1f77bcf86cd799439011',
+    email: 'user@example.com',
+    role: 'user',
+    sessionId: 'session-1',
+    twoFactorVerified: false,
+    authMethod: 'session',
+  };
+
   const mockCloudinaryService = {
     uploadFile: jest.fn(),
     deleteFile: jest.fn(),
@@ -102,7 +112,7 @@ describe('ProjectsController', () => {
       mockCloudinaryService.uploadFile.mockResolvedValue(uploadResult);
       mockProjectsService.create.mockResolvedValue(createResult);
 
-      expect(await controller.createProject(createDto, mockFile)).toEqual({
+      expect(await controller.createProject(createDto, mockFile, user)).toEqual({
         success: true,
         data: createResult,
         message: 'Success',
@@ -118,7 +128,7 @@ describe('ProjectsController', () => {
         teamMember: 1,
       };
 
-      await expect(controller.createProject(createDto, undefined as any)).rejects.toThrow('image is required');
+      await expect(controller.createProject(createDto, undefined as any, user)).rejects.toThrow('image is required');
     });
   });
 
@@ -129,7 +139,7 @@ describe('ProjectsController', () => {
       
       mockProjectsService.update.mockResolvedValue(result);
 
-      expect(await controller.update('1', updateDto, undefined)).toEqual({
+      expect(await controller.update('1', updateDto, undefined, user)).toEqual({
         success: true,
         data: result,
         message: 'Success',
@@ -138,15 +148,16 @@ describe('ProjectsController', () => {
   });
 
   describe('remove', () => {
-    it('should delete a project', async () => {
-      const result = { deleted: true };
+    it('should move a project to the trash', async () => {
+      const result = { deleted: true, purgeAfter: new Date() };
       mockProjectsService.delete.mockResolvedValue(result);
 
-      expect(await controller.remove('1')).toEqual({
+      expect(await controller.remove('1', user)).toEqual({
         success: true,
         data: result,
-        message: 'Success',
+        message: 'Project moved to trash',
       });
+      expect(mockProjectsService.delete).toHaveBeenCalledWith('1', user);
     });
   });
 });
@@ -18,31 +18,63 @@ import { ApiResponse } from '../../common/types/global';
 import { imageMulterOptions } from 'src/config/multer.config';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { CreateProjectDto } from './dto/create-project.dto';
-import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
 import { Public } from 'src/common/decorators/public.decorator';
-import { SafeProject } from './schemas/project.types';
-import { Roles } from 'src/common/decorators/roles.decorator';
-import { UserRole } from '../users/schemas/user.schema';
+import {
+  ProjectPage,
+  ProjectSlugLookup,
+  SafeProject,
+  TrashedProject,
+} from './schemas/project.types';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { ProjectQueryDto } from './dto/project-query.dto';
+import { RequireVerifiedEmail } from 'src/common/decorators/require-verified-email.decorator';
+import { RequireScopes } from 'src/common/decorators/scopes.decorator';
+import { ApiKeyScope } from '../api-keys/schemas/api-key.schema';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { Permission } from '../roles/schemas/role.schema';
+import { TenantInterceptor } from '../organizations/tenant.interceptor';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import type { JwtUser } from 'src/common/types/auth.types';
 
+// Every handler runs inside the caller's organization; ProjectsService never
+// filters by it itself (see tenantScopePlugin).
 @Controller('projects')
+@UseInterceptors(TenantInterceptor)
 export class ProjectsController {
-  constructor(
-    private readonly projectService: ProjectsService,
-    private readonly cloudinaryService: CloudinaryService,
-  ) {}
+  constructor(private readonly projectService: ProjectsService) {}
 
   @Get()
   @Public()
   @HttpCode(HttpStatus.OK)
   async getProjects(
     @Query() query: ProjectQueryDto,
-  ): Promise<ApiResponse<{ projects: SafeProject[]; total: number; page: number; limit: number }>> {
+  ): Promise<ApiResponse<ProjectPage>> {
     const result = await this.projectService.getProjects(query);
     return ApiResponse.success(result);
   }
 
+  @Get('by-slug/:slug')
+  @Public()
+  async findBySlug(
+    @Param('slug') slug: string,
+  ): Promise<ApiResponse<ProjectSlugLookup>> {
+    const data = await this.projectService.findBySlug(slug);
+    return ApiResponse.success(
+      data,
+      data.redirectTo ? `Project moved to ${data.redirectTo}` : undefined,
+    );
+  }
+
+  @Get('trash')
+  @RequirePermissions(Permission.PROJECT_DELETE)
+  @RequireScopes(ApiKeyScope.PROJECTS_DELETE)
+  async findTrash(
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<TrashedProject[]>> {
+    const data = await this.projectService.findTrash(user);
+    return ApiResponse.success(data);
+  }
+
   @Get(':id')
   @Public()
   async findOne(@Param('id') id: string): Promise<ApiResponse<SafeProject>> {
@@ -52,21 +84,21 @@ export class ProjectsController {
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @RequireVerifiedEmail()
+  @RequirePermissions(Permission.PROJECT_CREATE)
+  @RequireScopes(ApiKeyScope.PROJECTS_WRITE)
   @UseInterceptors(FileInterceptor('image', imageMulterOptions))
   async createProject(
     @Body() createUserDto: CreateProjectDto,
     @UploadedFile()
     File: Express.Multer.File,
+    @CurrentUser() user: JwtUser,
   ) {
     if (!File) {
       throw new BadRequestException('image is required');
     }
 
-    const upload = await this.cloudinaryService.uploadFile(File, 'projects');
-
-    const imageUrl = upload.url;
-
-    const project = await this.projectService.create(createUserDto, imageUrl);
+    const project = await this.projectService.create(createUserDto, File, user);
 
     return ApiResponse.success(project);
   }
@@ -74,24 +106,46 @@ export class ProjectsController {
   // ─── PATCH /projects/:id ─────────────────────────────────────────────────
   @Patch(':id')
   @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.PROJECT_UPDATE)
+  @RequireScopes(ApiKeyScope.PROJECTS_WRITE)
   @UseInterceptors(FileInterceptor('image', imageMulterOptions))
   async update(
     @Param('id') id: string,
     @Body() updateProjectDto: UpdateProjectDto,
     @UploadedFile()
     file: Express.Multer.File | undefined,
+    @CurrentUser() user: JwtUser,
   ): Promise<ApiResponse<SafeProject>> {
-    const data = await this.projectService.update(id, updateProjectDto, file);
+    const data = await this.projectService.update(
+      id,
+      updateProjectDto,
+      file,
+      user,
+    );
     return ApiResponse.success(data);
   }
   // ─── DELETE /projects/:id ────────────────────────────────────────────────
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(Permission.PROJECT_DELETE)
+  @RequireScopes(ApiKeyScope.PROJECTS_DELETE)
   async remove(
     @Param('id') id: string,
-  ): Promise<ApiResponse<{ deleted: boolean }>> {
-    const data = await this.projectService.delete(id);
-    return ApiResponse.success(data);
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<{ deleted: boolean; purgeAfter: Date }>> {
+    const data = await this.projectService.delete(id, user);
+    return ApiResponse.success(data, 'Project moved to trash');
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.PROJECT_DELETE)
+  @RequireScopes(ApiKeyScope.PROJECTS_DELETE)
+  async restore(
+    @Param('id') id: string,
+    @CurrentUser() user: JwtUser,
+  ): Promise<ApiResponse<SafeProject>> {
+    const data = await this.projectService.restore(id, user);
+    return ApiResponse.success(data, 'Project restored');
   }
 }
@@ -1,16 +1,22 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { ProjectsController } from './projects.controller';
 import { ProjectsService } from './projects.service';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Project, ProjectSchema } from './schemas/project.schema';
 import { CloudinaryModule } from 'src/services/cloudinary/cloudinary.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { RolesModule } from '../roles/roles.module';
+import { ProjectPolicy } from './project.policy';
 
 @Module({
   imports: [
     CloudinaryModule,
+    forwardRef(() => OrganizationsModule),
+    RolesModule,
     MongooseModule.forFeature([{ name: Project.name, schema: ProjectSchema }]),
   ],
   controllers: [ProjectsController],
-  providers: [ProjectsService],
+  providers: [ProjectsService, ProjectPolicy],
+  exports: [ProjectsService],
 })
 export class ProjectsModule {}
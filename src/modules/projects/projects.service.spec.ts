@@ -1,12 +1,113 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
 import { ProjectsService } from './projects.service';
+import { Project } from './schemas/project.schema';
+import { ProjectPolicy } from './project.policy';
+import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import {
+  requireTenant,
+  runInTenant,
+} from '../../common/tenancy/tenant-context';
+import { JwtUser } from '../../common/types/auth.types';
 
 describe('ProjectsService', () => {
   let service: ProjectsService;
 
+  const organizationId = new Types.ObjectId().toString();
+  const ownerId = new Types.ObjectId();
+  const outsiderId = new Types.ObjectId().toString();
+
+  const user: JwtUser = {
+    userId: ownerId.toString(),
+    email: 'user@example.com',
+    role: 'user',
+    sessionId: 'session-1',
+    twoFactorVerified: false,
+    authMethod: 'session',
+  };
+  const file = { buffer: Buffer.from('image') } as Express.Multer.File;
+
+  const inTenant = <T>(fn: () => Promise<T>) =>
+    runInTenant({ organizationId, role: null }, fn);
+
+  // A chainable stand-in for a mongoose query resolving to `value`.
+  const query = (value: unknown) => {
+    const chain = {
+      select: () => chain,
+      populate: () => chain,
+      sort: () => chain,
+      setOptions: () => chain,
+      lean: () => chain,
+      exec: () => Promise.resolve(value),
+      then: (
+        resolve: (result: unknown) => unknown,
+        reject: (error: unknown) => unknown,
+      ) => Promise.resolve(value).then(resolve, reject),
+    };
+    return chain;
+  };
+
+  const record = (fields: Record<string, unknown>) => ({
+    _id: new Types.ObjectId(),
+    title: 'Portfolio',
+    slug: 'portfolio',
+    previousSlugs: [] as string[],
+    tags: [],
+    createdBy: null,
+    collaborators: [],
+    ...fields,
+  });
+
+  const mockProjectModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    deleteMany: jest.fn(),
+    collection: { distinct: jest.fn() },
+  };
+
+  const mockCloudinaryService = {
+    uploadFile: jest.fn(),
+    deleteByUrl: jest.fn(),
+  };
+
+  const mockProjectPolicy = {
+    assertCanEdit: jest.fn(),
+    assertCanManage: jest.fn(),
+    isProjectAdmin: jest.fn(),
+  };
+
+  const mockOrganizationsService = {
+    filterMembers: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ projectTrashRetentionDays: 30 }),
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+    mockOrganizationsService.filterMembers.mockResolvedValue([]);
+    mockCloudinaryService.uploadFile.mockResolvedValue({
+      url: 'https://res.cloudinary.com/demo/image/upload/v1/projects/new.jpg',
+    });
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProjectsService],
+      providers: [
+        ProjectsService,
+        { provide: getModelToken(Project.name), useValue: mockProjectModel },
+        { provide: CloudinaryService, useValue: mockCloudinaryService },
+        { provide: ProjectPolicy, useValue: mockProjectPolicy },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
     }).compile();
 
     service = module.get<ProjectsService>(ProjectsService);
@@ -15,4 +116,248 @@ describe('ProjectsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('create', () => {
+    it('refuses outside collaborators before uploading the image', async () => {
+      await expect(
+        inTenant(() =>
+          service.create(
+            {
+              title: 'Portfolio',
+              description: 'A portfolio',
+              tags: [],
+              liveUrl: 'https://example.com',
+              teamMember: 1,
+              collaborators: [outsiderId],
+            },
+            file,
+            user,
+          ),
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockCloudinaryService.uploadFile).not.toHaveBeenCalled();
+      expect(mockProjectModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('refuses outside collaborators before uploading the image', async () => {
+      mockProjectModel.findById.mockResolvedValue({
+        _id: new Types.ObjectId(),
+        createdBy: ownerId,
+        image:
+          'https://res.cloudinary.com/demo/image/upload/v1/projects/old.jpg',
+      });
+
+      await expect(
+        inTenant(() =>
+          service.update('p1', { collaborators: [outsiderId] }, file, user),
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockCloudinaryService.uploadFile).not.toHaveBeenCalled();
+      expect(mockProjectModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('slugs', () => {
+    it('suffixes the slug of a title that is already taken', async () => {
+      const created = record({ slug: 'my-project-4' });
+      mockProjectModel.find.mockReturnValue(
+        query([
+          { slug: 'my-project', previousSlugs: [] },
+          { slug: 'my-project-2', previousSlugs: ['my-project-3'] },
+        ]),
+      );
+      mockProjectModel.create.mockResolvedValue({ id: created._id });
+      mockProjectModel.findById.mockReturnValue(query(created));
+
+      await inTenant(() =>
+        service.create(
+          {
+            title: 'My Project',
+            description: 'A project',
+            tags: [],
+            liveUrl: 'https://example.com',
+            teamMember: 1,
+          },
+          file,
+          user,
+        ),
+      );
+
+      expect(mockProjectModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ slug: 'my-project-4' }),
+      );
+    });
+
+    it('keeps the old slug as a redirect after a rename', async () => {
+      const id = new Types.ObjectId();
+      mockProjectModel.findById.mockResolvedValue({
+        _id: id,
+        title: 'Old Name',
+        slug: 'old-name',
+        previousSlugs: [],
+        createdBy: ownerId,
+      });
+      mockProjectModel.find.mockReturnValue(query([]));
+      mockProjectModel.findByIdAndUpdate.mockReturnValue(
+        query(record({ _id: id, title: 'New Name', slug: 'new-name' })),
+      );
+
+      const updated = await inTenant(() =>
+        service.update(id.toString(), { title: 'New Name' }, undefined, user),
+      );
+
+      expect(updated.slug).toBe('new-name');
+      expect(mockProjectModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        id.toString(),
+        expect.objectContaining({
+          slug: 'new-name',
+          previousSlugs: ['old-name'],
+        }),
+        expect.anything(),
+      );
+    });
+
+    describe('findBySlug', () => {
+      const otherOrganizationId = new Types.ObjectId().toString();
+      const stored = record({
+        slug: 'new-name',
+        previousSlugs: ['old-name'],
+      });
+
+      // Stands in for tenantScopePlugin: only the active organization's
+      // projects are visible.
+      beforeEach(() => {
+        mockProjectModel.findOne.mockImplementation(
+          (filter: { slug?: string; previousSlugs?: string }) => {
+            const { organizationId: active } = requireTenant();
+            const match =
+              active === organizationId &&
+              (filter.slug === stored.slug ||
+                stored.previousSlugs.includes(filter.previousSlugs ?? ''));
+            return query(match ? stored : null);
+          },
+        );
+      });
+
+      it('redirects an old slug to the current one', async () => {
+        const result = await inTenant(() => service.findBySlug('Old-Name'));
+
+        expect(result.redirectTo).toBe('new-name');
+        expect(result.project._id).toBe(stored._id.toString());
+      });
+
+      it('returns the project without a redirect for its current slug', async () => {
+        const result = await inTenant(() => service.findBySlug('new-name'));
+
+        expect(result.redirectTo).toBeNull();
+      });
+
+      it('responds 404 for slugs of another organization', async () => {
+        const inOtherTenant = <T>(fn: () => Promise<T>) =>
+          runInTenant({ organizationId: otherOrganizationId, role: null }, fn);
+
+        await expect(
+          inOtherTenant(() => service.findBySlug('new-name')),
+        ).rejects.toBeInstanceOf(NotFoundException);
+        await expect(
+          inOtherTenant(() => service.findBySlug('old-name')),
+        ).rejects.toBeInstanceOf(NotFoundException);
+      });
+    });
+  });
+
+  describe('trash', () => {
+    it('restores a project moved to the trash', async () => {
+      const id = new Types.ObjectId();
+      const project = { _id: id, createdBy: ownerId, deletedAt: null };
+      mockProjectModel.findById.mockResolvedValueOnce(project);
+
+      const { purgeAfter } = await inTenant(() =>
+        service.delete(id.toString(), user),
+      );
+      expect(mockProjectModel.updateOne).toHaveBeenCalledWith(
+        { _id: id },
+        expect.objectContaining({ deletedAt: expect.any(Date) as Date }),
+      );
+      expect(purgeAfter.getTime()).toBeGreaterThan(
+        Date.now() + 29 * 24 * 60 * 60 * 1000,
+      );
+
+      mockProjectModel.findOne.mockResolvedValueOnce({
+        ...project,
+        deletedAt: new Date(),
+      });
+      mockProjectModel.findById.mockReturnValueOnce(query(record({ _id: id })));
+      const restored = await inTenant(() =>
+        service.restore(id.toString(), user),
+      );
+
+      expect(restored._id).toBe(id.toString());
+      expect(mockProjectModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: id, deletedAt: { $ne: null } },
+        { deletedAt: null, deletedBy: null },
+      );
+      expect(mockProjectPolicy.assertCanManage).toHaveBeenCalledTimes(2);
+    });
+
+    it('refuses to restore projects that are not in the trash', async () => {
+      mockProjectModel.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        inTenant(() => service.restore(new Types.ObjectId().toString(), user)),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(mockProjectModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it("lists only the user's own trashed projects", async () => {
+      mockProjectPolicy.isProjectAdmin.mockResolvedValueOnce(false);
+      mockProjectModel.find.mockReturnValueOnce(query([]));
+
+      await inTenant(() => service.findTrash(user));
+
+      expect(mockProjectModel.find).toHaveBeenCalledWith({
+        deletedAt: { $ne: null },
+        createdBy: ownerId,
+      });
+    });
+
+    it('lists the whole trash for project admins', async () => {
+      mockProjectPolicy.isProjectAdmin.mockResolvedValueOnce(true);
+      mockProjectModel.find.mockReturnValueOnce(query([]));
+
+      await inTenant(() => service.findTrash(user));
+
+      expect(mockProjectModel.find).toHaveBeenCalledWith({
+        deletedAt: { $ne: null },
+      });
+    });
+
+    it('deletes the images of purged projects', async () => {
+      const expired = [
+        record({ image: 'https://res.cloudinary.com/demo/a.jpg' }),
+        record({ image: 'https://res.cloudinary.com/demo/b.jpg' }),
+      ];
+      mockProjectModel.collection.distinct.mockResolvedValueOnce([
+        new Types.ObjectId(organizationId),
+      ]);
+      mockProjectModel.find.mockReturnValueOnce(query(expired));
+      mockProjectModel.deleteMany.mockResolvedValueOnce({ deletedCount: 2 });
+
+      await service.purgeExpiredTrash();
+
+      expect(mockCloudinaryService.deleteByUrl).toHaveBeenCalledWith(
+        'https://res.cloudinary.com/demo/a.jpg',
+      );
+      expect(mockCloudinaryService.deleteByUrl).toHaveBeenCalledWith(
+        'https://res.cloudinary.com/demo/b.jpg',
+      );
+      expect(mockProjectModel.deleteMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          _id: { $in: expired.map((project) => project._id) },
+        }),
+      );
+    });
+  });
 });
@@ -1,202 +1,291 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
 
 import { Project, ProjectDocument } from './schemas/project.schema';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
-import { CreateProjectResponse, SafeProject } from './schemas/project.types';
+import {
+  ProjectPage,
+  ProjectSlugLookup,
+  ProjectUserSummary,
+  ExportedProject,
+  SafeProject,
+  TrashedProject,
+} from './schemas/project.types';
 import { UpdateProjectDto } from './dto/update-project.dto';
-import { ProjectQueryDto } from './dto/project-query.dto';
+import {
+  ProjectQueryDto,
+  ProjectSortField,
+  SearchMode,
+} from './dto/project-query.dto';
+import { SortOrder } from '../../common/types/query.types';
+import {
+  CursorValue,
+  decodeCursor,
+  encodeCursor,
+  keysetFilter,
+  ProjectCursor,
+} from './project-cursor';
+import { compileProjectFilter } from './project-filter';
+import { slugify } from '../../common/utils/slug.util';
+import { escapeRegex } from '../../common/utils/regex.util';
+import { ProjectPolicy } from './project.policy';
+import { OrganizationsService } from '../organizations/organizations.service';
+import {
+  requireTenant,
+  runInTenant,
+} from '../../common/tenancy/tenant-context';
+import { JwtUser } from '../../common/types/auth.types';
+import { highlight } from '../../common/utils/highlight.util';
+import { AppConfig } from '../../config/app.config';
+
+const SAFE_PROJECT_FIELDS =
+  'title slug description tags image liveUrl backendLiveUrl repoUrl backendRepoUrl startingDate teamMember status createdBy collaborators createdAt updatedAt';
+
+const USER_SUMMARY_POPULATE = [
+  { path: 'createdBy', select: 'firstName lastName image' },
+  { path: 'collaborators', select: 'firstName lastName image' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const projectSlug = (title: string): string => slugify(title, 'project');
+
+interface UserSummaryRecord {
+  _id: Types.ObjectId;
+  firstName: string;
+  lastName: string;
+  image: string | null;
+}
+
+// A lean project with createdBy and collaborators populated.
+type ProjectRecord = Omit<
+  Project,
+  'organization' | 'createdBy' | 'collaborators' | 'deletedBy'
+> & {
+  _id: Types.ObjectId;
+  createdBy: UserSummaryRecord | null;
+  collaborators: UserSummaryRecord[];
+  score?: number;
+};
+
+type TrashedProjectRecord = ProjectRecord & {
+  deletedAt: Date;
+  deletedBy: UserSummaryRecord | null;
+};
 
 @Injectable()
 export class ProjectsService {
+  private readonly logger = new Logger(ProjectsService.name);
+
   constructor(
     @InjectModel(Project.name)
     private readonly projectModel: Model<ProjectDocument>,
     private readonly cloudinaryService: CloudinaryService,
+    private readonly projectPolicy: ProjectPolicy,
+    private readonly organizationsService: OrganizationsService,
+    private readonly configService: ConfigService,
   ) {}
 
   // ─── CREATE ──────────────────────────────────────────────────────────────────
 
   async create(
     createProjectDto: CreateProjectDto,
-    imageUrl: string,
-  ): Promise<CreateProjectResponse> {
-    const project = await this.projectModel.create({
-      ...createProjectDto,
-      image: imageUrl,
-    });
-
-    return {
-      _id: project.id,
-      title: project.title,
-      description: project.description,
-      tags:
-        project.tags?.map((tag) => {
-          // Remove extra quotes if they exist
-          if (
-            typeof tag === 'string' &&
-            tag.startsWith('"') &&
-            tag.endsWith('"')
-          ) {
-            return tag.slice(1, -1);
-          }
-          return tag;
-        }) || [],
-      image: project.image,
-      liveUrl: project.liveUrl,
-      backendLiveUrl: project.backendLiveUrl ?? null,
-      repoUrl: project.repoUrl ?? null,
-      backendRepoUrl: project.backendRepoUrl ?? null,
-      startingDate: project.startingDate ?? null,
-      teamMember: project.teamMember,
-      status: project.status,
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
+    file: Express.Multer.File,
+    user: JwtUser,
+  ): Promise<SafeProject> {
+    const { collaborators = [], ...fields } = createProjectDto;
+    // Resolved before uploading so a refused project leaves no orphaned image.
+    const members = await this.resolveCollaborators(collaborators);
+    const { url } = await this.cloudinaryService.uploadFile(file, 'projects');
+    const data = {
+      ...fields,
+      image: url,
+      createdBy: new Types.ObjectId(user.userId),
+      collaborators: members,
     };
+    const project = await this.withFreshSlug(async () =>
+      this.projectModel.create({
+        ...data,
+        slug: await this.uniqueSlug(data.title),
+      }),
+    );
+
+    return this.findOne(project.id);
   }
 
   async getAllProjects(): Promise<SafeProject[]> {
     const projects = await this.projectModel
       .find()
-      .select(
-        'title description tags image liveUrl backendLiveUrl repoUrl backendRepoUrl startingDate teamMember status createdAt updatedAt',
-      )
-      .lean<SafeProject[]>();
-    return projects.map((project) => ({
-      ...project,
-      tags:
-        project.tags?.map((tag) => {
-          // Remove extra quotes if they exist
-          if (
-            typeof tag === 'string' &&
-            tag.startsWith('"') &&
-            tag.endsWith('"')
-          ) {
-            return tag.slice(1, -1);
-          }
-          return tag;
-        }) || [],
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
-    }));
+      .select(SAFE_PROJECT_FIELDS)
+      .populate(USER_SUMMARY_POPULATE)
+      .lean<ProjectRecord[]>();
+    return projects.map((project) => this.toSafeProject(project));
   }
 
-  async getProjects(query: ProjectQueryDto): Promise<{
-    projects: SafeProject[];
-    total: number;
-    page: number;
-    limit: number;
-  }> {
-    const { status, tag, search, page = 1, limit = 10 } = query;
-
-    const filter: {
-      status?: string;
-      tags?: { $in: string[] };
-      $or?: Array<
-        | { title?: { $regex: string; $options: string } }
-        | { description?: { $regex: string; $options: string } }
-      >;
-    } = {};
-
-    // Filter by status
-    if (status) {
-      filter.status = status;
-    }
+  async getProjects(query: ProjectQueryDto): Promise<ProjectPage> {
+    const {
+      search,
+      searchMode = SearchMode.TEXT,
+      sort = ProjectSortField.CREATED_AT,
+      order = SortOrder.DESC,
+      page = 1,
+      limit = 10,
+      after,
+      before,
+    } = query;
 
-    // Filter by tag
-    if (tag) {
-      filter.tags = { $in: [tag] };
+    const term = search?.trim();
+    const textSearch = !!term && searchMode === SearchMode.TEXT;
+    if (sort === ProjectSortField.RELEVANCE && !textSearch) {
+      throw new BadRequestException(
+        'sort=relevance requires a search in text mode',
+      );
     }
 
-    // Search in title and description
-    if (search) {
-      filter.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-      ];
-    }
+    const filter = compileProjectFilter(query);
+
+    const direction: 1 | -1 = order === SortOrder.ASC ? 1 : -1;
+    const cursor = this.readCursor(after, before, sort, direction);
+    // Walking back from `before` reverses the ordering; the page is put
+    // back in order below.
+    const flip: 1 | -1 = before ? -1 : 1;
+    const walk = (direction * flip) as 1 | -1;
+    // _id breaks ties so pages do not overlap on equal sort values.
+    const sortSpec: Record<string, 1 | -1 | { $meta: 'textScore' }> =
+      sort === ProjectSortField.RELEVANCE
+        ? { score: { $meta: 'textScore' }, createdAt: -1, _id: 1 }
+        : { [sort]: walk, _id: flip };
 
-    const skip = (page - 1) * limit;
-
-    const [projects, total] = await Promise.all([
-      this.projectModel
-        .find(filter)
-        .select(
-          'title description tags image liveUrl backendLiveUrl repoUrl backendRepoUrl startingDate teamMember status createdAt updatedAt',
-        )
-        .skip(skip)
-        .limit(limit)
-        .sort({ createdAt: -1 })
-        .lean<SafeProject[]>(),
+    const find = this.projectModel
+      .find(
+        cursor
+          ? {
+              ...filter,
+              $and: [...(filter.$and ?? []), keysetFilter(cursor, walk, flip)],
+            }
+          : filter,
+      )
+      .select(SAFE_PROJECT_FIELDS)
+      .populate(USER_SUMMARY_POPULATE)
+      .sort(sortSpec);
+    if (textSearch) find.select({ score: { $meta: 'textScore' } });
+    // One extra row in cursor mode tells whether there is more beyond it.
+    if (cursor) find.limit(limit + 1);
+    else find.skip((page - 1) * limit).limit(limit);
+
+    const [records, total] = await Promise.all([
+      find.lean<ProjectRecord[]>(),
       this.projectModel.countDocuments(filter),
     ]);
 
-    const formattedProjects = projects.map((project) => ({
-      ...project,
-      tags:
-        project.tags?.map((tag) => {
-          // Remove extra quotes if they exist
-          if (
-            typeof tag === 'string' &&
-            tag.startsWith('"') &&
-            tag.endsWith('"')
-          ) {
-            return tag.slice(1, -1);
-          }
-          return tag;
-        }) || [],
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
-    }));
+    const hasMore = cursor !== null && records.length > limit;
+    const rows = cursor ? records.slice(0, limit) : records;
+    if (before) rows.reverse();
 
+    const totalPages = Math.ceil(total / limit);
+    const hasNextPage = cursor ? !!before || hasMore : page < totalPages;
+    const hasPreviousPage = cursor ? !before || hasMore : page > 1;
+    const cursorOf = (project: ProjectRecord | undefined): string | null =>
+      project && sort !== ProjectSortField.RELEVANCE
+        ? encodeCursor({
+            sort,
+            order: direction,
+            value: (project[sort] ?? null) as CursorValue,
+            id: project._id.toString(),
+          })
+        : null;
+
+    const terms = term ? this.highlightTerms(term, searchMode) : [];
     return {
-      projects: formattedProjects,
+      projects: rows.map((project) => ({
+        ...this.toSafeProject(project),
+        ...(textSearch && { score: project.score }),
+        ...(term && {
+          highlights: {
+            title: highlight(project.title, terms),
+            description: highlight(project.description, terms),
+          },
+        }),
+      })),
       total,
-      page,
+      page: cursor ? null : page,
       limit,
+      totalPages,
+      hasNextPage,
+      hasPreviousPage,
+      nextCursor: hasNextPage ? cursorOf(rows.at(-1)) : null,
+      previousCursor: hasPreviousPage ? cursorOf(rows[0]) : null,
     };
   }
 
+  /** Resolves current and previous slugs; the latter report a redirect. */
+  async findBySlug(slug: string): Promise<ProjectSlugLookup> {
+    const normalized = slug.toLowerCase();
+    const current = await this.projectModel
+      .findOne({ slug: normalized })
+      .select(SAFE_PROJECT_FIELDS)
+      .populate(USER_SUMMARY_POPULATE)
+      .lean<ProjectRecord>()
+      .exec();
+    if (current) {
+      return { project: this.toSafeProject(current), redirectTo: null };
+    }
+
+    const moved = await this.projectModel
+      .findOne({ previousSlugs: normalized })
+      .select(SAFE_PROJECT_FIELDS)
+      .populate(USER_SUMMARY_POPULATE)
+      .lean<ProjectRecord>()
+      .exec();
+    if (!moved) throw new NotFoundException(`Project "${slug}" not found`);
+
+    return { project: this.toSafeProject(moved), redirectTo: moved.slug };
+  }
+
+  /** Gives slugs to projects created before they existed. */
+  async backfillSlugs(): Promise<number> {
+    const projects = await this.projectModel
+      .find({ slug: null })
+      .select('title')
+      .exec();
+    for (const project of projects) {
+      await this.withFreshSlug(async () =>
+        this.projectModel.updateOne(
+          { _id: project._id },
+          { slug: await this.uniqueSlug(project.title) },
+        ),
+      );
+    }
+    return projects.length;
+  }
+
   // ─── GET ONE ──────────────────────────────────────────────────────────────
   async findOne(id: string): Promise<SafeProject> {
     const project = await this.projectModel
       .findById(id)
-      .select(
-        'title description tags image liveUrl backendLiveUrl repoUrl backendRepoUrl startingDate teamMember status createdAt updatedAt',
-      )
-      .lean<SafeProject>()
+      .select(SAFE_PROJECT_FIELDS)
+      .populate(USER_SUMMARY_POPULATE)
+      .lean<ProjectRecord>()
       .exec();
     if (!project) throw new NotFoundException(`Project #${id} not found`);
 
-    return {
-      ...project,
-      tags:
-        project.tags?.map((tag) => {
-          // Remove extra quotes if they exist
-          if (
-            typeof tag === 'string' &&
-            tag.startsWith('"') &&
-            tag.endsWith('"')
-          ) {
-            return tag.slice(1, -1);
-          }
-          return tag;
-        }) || [],
-      createdAt: project.createdAt,
-      updatedAt: project.updatedAt,
-    };
+    return this.toSafeProject(project);
   }
 
   async update(
     id: string,
     updateProjectDto: UpdateProjectDto,
     file: Express.Multer.File | undefined,
+    user: JwtUser,
   ): Promise<SafeProject> {
     // Validate that at least one field is provided for update
     const hasUpdateFields = Object.keys(updateProjectDto).length > 0 || file;
@@ -209,6 +298,17 @@ export class ProjectsService {
     const exist = await this.projectModel.findById(id);
     if (!exist) throw new NotFoundException(`Project #${id} not found`);
 
+    // Checked before uploading so a refused edit leaves no orphaned image.
+    await this.projectPolicy.assertCanEdit(exist, user);
+    const { collaborators, ...fields } = updateProjectDto;
+    const updateData: Partial<Omit<Project, 'createdAt' | 'updatedAt'>> = {
+      ...fields,
+    };
+    if (collaborators) {
+      await this.projectPolicy.assertCanManage(exist, user);
+      updateData.collaborators = await this.resolveCollaborators(collaborators);
+    }
+
     let imageUrl = exist.image;
     let shouldDeleteOldImage = false;
 
@@ -219,20 +319,31 @@ export class ProjectsService {
       shouldDeleteOldImage = true;
     }
 
-    // Prepare update data
-    const updateData: Partial<Omit<Project, 'createdAt' | 'updatedAt'>> = { ...updateProjectDto };
     if (file) {
       updateData.image = imageUrl;
     }
 
-    // Update the project
-    const project = await this.projectModel
-      .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
-      .select(
-        'title description tags image liveUrl backendLiveUrl repoUrl backendRepoUrl startingDate teamMember status createdAt updatedAt',
-      )
-      .lean<SafeProject>()
-      .exec();
+    // Update the project, moving to a new slug when the title changes
+    // enough to produce one. The old slug keeps resolving as a redirect.
+    const renamed =
+      fields.title !== undefined &&
+      (!exist.slug || projectSlug(fields.title) !== projectSlug(exist.title));
+    const project = await this.withFreshSlug(async () => {
+      if (renamed) {
+        const slug = await this.uniqueSlug(fields.title!, exist._id);
+        updateData.slug = slug;
+        updateData.previousSlugs = [
+          ...exist.previousSlugs.filter((previous) => previous !== slug),
+          ...(exist.slug && exist.slug !== slug ? [exist.slug] : []),
+        ];
+      }
+      return this.projectModel
+        .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
+        .select(SAFE_PROJECT_FIELDS)
+        .populate(USER_SUMMARY_POPULATE)
+        .lean<ProjectRecord>()
+        .exec();
+    });
 
     if (!project) {
       throw new NotFoundException(`Project #${id} not found after update`);
@@ -240,21 +351,281 @@ export class ProjectsService {
 
     // Delete old image from Cloudinary if a new one was uploaded
     if (shouldDeleteOldImage && exist.image) {
+      await this.cloudinaryService.deleteByUrl(exist.image);
+    }
+
+    return this.toSafeProject(project);
+  }
+
+  /**
+   * Moves the project to the trash. It keeps its slug and image until
+   * purgeExpiredTrash removes it, so a restore brings it back unchanged.
+   */
+  async delete(
+    id: string,
+    user: JwtUser,
+  ): Promise<{ deleted: boolean; purgeAfter: Date }> {
+    const project = await this.projectModel.findById(id);
+    if (!project) throw new NotFoundException(`Project #${id} not found`);
+
+    await this.projectPolicy.assertCanManage(project, user);
+
+    const deletedAt = new Date();
+    await this.projectModel.updateOne(
+      { _id: project._id },
+      { deletedAt, deletedBy: new Types.ObjectId(user.userId) },
+    );
+    return {
+      deleted: true,
+      purgeAfter: new Date(deletedAt.getTime() + this.trashRetentionMs()),
+    };
+  }
+
+  /**
+   * Every project the user created or collaborates on, in any organization
+   * and including the trash; used for the personal data export.
+   */
+  async exportForUser(userId: string): Promise<ExportedProject[]> {
+    const user = new Types.ObjectId(userId);
+    const involved = { $or: [{ createdBy: user }, { collaborators: user }] };
+    // The raw collection bypasses the tenant scope to find the user's
+    // organizations; each is then read in its own.
+    const organizations = await this.projectModel.collection.distinct(
+      'organization',
+      involved,
+    );
+
+    const exported: ExportedProject[] = [];
+    for (const organization of organizations) {
+      if (!organization) continue;
+      const organizationId = String(organization);
+      const projects = await runInTenant({ organizationId, role: null }, () =>
+        this.projectModel
+          .find(involved)
+          .select(`${SAFE_PROJECT_FIELDS} deletedAt`)
+          .sort({ createdAt: -1 })
+          .populate(USER_SUMMARY_POPULATE)
+          .setOptions({ withDeleted: true })
+          .lean<ProjectRecord[]>(),
+      );
+      exported.push(
+        ...projects.map((project) => ({
+          ...this.toSafeProject(project),
+          organization: organizationId,
+          deletedAt: project.deletedAt ?? null,
+        })),
+      );
+    }
+    return exported;
+  }
+
+  // ─── TRASH ───────────────────────────────────────────────────────────────────
+
+  /** Project admins see the whole trash; everyone else their own projects. */
+  async findTrash(user: JwtUser): Promise<TrashedProject[]> {
+    const isAdmin = await this.projectPolicy.isProjectAdmin(user);
+    const projects = await this.projectModel
+      .find({
+        deletedAt: { $ne: null },
+        ...(!isAdmin && { createdBy: new Types.ObjectId(user.userId) }),
+      })
+      .select(`${SAFE_PROJECT_FIELDS} deletedAt deletedBy`)
+      .sort({ deletedAt: -1, _id: -1 })
+      .populate([
+        ...USER_SUMMARY_POPULATE,
+        { path: 'deletedBy', select: 'firstName lastName image' },
+      ])
+      .lean<TrashedProjectRecord[]>();
+
+    const retentionMs = this.trashRetentionMs();
+    return projects.map((project) => ({
+      ...this.toSafeProject(project),
+      deletedAt: project.deletedAt,
+      deletedBy: project.deletedBy
+        ? this.toUserSummary(project.deletedBy)
+        : null,
+      purgeAfter: new Date(project.deletedAt.getTime() + retentionMs),
+    }));
+  }
+
+  async restore(id: string, user: JwtUser): Promise<SafeProject> {
+    const project = await this.projectModel.findOne({
+      _id: id,
+      deletedAt: { $ne: null },
+    });
+    if (!project) {
+      throw new NotFoundException(`Project #${id} not found in the trash`);
+    }
+
+    await this.projectPolicy.assertCanManage(project, user);
+
+    await this.projectModel.updateOne(
+      { _id: project._id, deletedAt: { $ne: null } },
+      { deletedAt: null, deletedBy: null },
+    );
+    return this.findOne(id);
+  }
+
+  /**
+   * Permanently removes the active organization's projects trashed before
+   * `deletedBefore`, together with their images. Returns how many went.
+   */
+  async purgeTrash(deletedBefore: Date): Promise<number> {
+    const expired = { deletedAt: { $ne: null, $lte: deletedBefore } };
+    const projects = await this.projectModel
+      .find(expired)
+      .select('image')
+      .lean<Pick<ProjectRecord, '_id' | 'image'>[]>();
+    if (projects.length === 0) return 0;
+
+    for (const project of projects) {
+      if (project.image) {
+        await this.cloudinaryService.deleteByUrl(project.image);
+      }
+    }
+
+    const result = await this.projectModel.deleteMany({
+      ...expired,
+      _id: { $in: projects.map((project) => project._id) },
+    });
+    return result.deletedCount;
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredTrash(): Promise<void> {
+    const cutoff = new Date(Date.now() - this.trashRetentionMs());
+    // The raw collection bypasses the tenant scope to find every
+    // organization with expired projects; each is then purged in its own.
+    const organizations = await this.projectModel.collection.distinct(
+      'organization',
+      { deletedAt: { $ne: null, $lte: cutoff } },
+    );
+
+    for (const organization of organizations) {
+      const organizationId = String(organization);
+      const purged = await runInTenant({ organizationId, role: null }, () =>
+        this.purgeTrash(cutoff),
+      );
+      if (purged > 0) {
+        this.logger.log(
+          `Purged ${purged} trashed project(s) of organization ${organizationId}`,
+        );
+      }
+    }
+  }
+
+  // Collaborators must belong to the project's organization.
+  private async resolveCollaborators(
+    userIds: string[],
+  ): Promise<Types.ObjectId[]> {
+    const unique = [...new Set(userIds)];
+    if (unique.length === 0) return [];
+
+    const members = await this.organizationsService.filterMembers(
+      requireTenant().organizationId,
+      unique,
+    );
+    const outsiders = unique.filter((id) => !members.includes(id));
+    if (outsiders.length > 0) {
+      throw new BadRequestException(
+        `Not members of this organization: ${outsiders.join(', ')}`,
+      );
+    }
+    return unique.map((id) => new Types.ObjectId(id));
+  }
+
+  /**
+   * Picks a free slug for `title` in the active organization, appending
+   * -2, -3… on collisions. Previous slugs count as taken so their redirects
+   * keep working; those of `exceptId` do not, so a project can take back
+   * one of its own.
+   */
+  private async uniqueSlug(
+    title: string,
+    exceptId?: Types.ObjectId,
+  ): Promise<string> {
+    const base = projectSlug(title);
+    const pattern = new RegExp(`^${escapeRegex(base)}(?:-\\d+)?$`);
+    const taken = await this.projectModel
+      .find({
+        ...(exceptId && { _id: { $ne: exceptId } }),
+        $or: [{ slug: pattern }, { previousSlugs: pattern }],
+      })
+      .select('slug previousSlugs')
+      // Trashed projects keep their slugs so a restore cannot collide.
+      .setOptions({ withDeleted: true })
+      .lean<Pick<Project, 'slug' | 'previousSlugs'>[]>();
+    const used = new Set(
+      taken.flatMap((project) => [project.slug, ...project.previousSlugs]),
+    );
+
+    if (!used.has(base)) return base;
+    let suffix = 2;
+    while (used.has(`${base}-${suffix}`)) suffix++;
+    return `${base}-${suffix}`;
+  }
+
+  // Two concurrent writes can pick the same free slug; the unique index
+  // rejects the second, which then picks again.
+  private async withFreshSlug<T>(write: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
       try {
-        // Extract public ID from Cloudinary URL
-        const publicId = this.extractPublicIdFromUrl(exist.image);
-        if (publicId) {
-          await this.cloudinaryService.deleteFile(publicId);
-        }
+        return await write();
       } catch (error) {
-        // Log error but don't fail the update operation
-        console.error('Failed to delete old image from Cloudinary:', error);
+        const { code, keyPattern } = error as {
+          code?: number;
+          keyPattern?: Record<string, unknown>;
+        };
+        if (code !== 11000 || !keyPattern?.slug || attempt >= 3) throw error;
       }
     }
+  }
+
+  private trashRetentionMs(): number {
+    const { projectTrashRetentionDays } =
+      this.configService.get<AppConfig>('app')!;
+    return projectTrashRetentionDays * DAY_MS;
+  }
+
+  private readCursor(
+    after: string | undefined,
+    before: string | undefined,
+    sort: ProjectSortField,
+    direction: 1 | -1,
+  ): ProjectCursor | null {
+    if (!after && !before) return null;
+    if (after && before) {
+      throw new BadRequestException('Pass either after or before, not both');
+    }
+    if (sort === ProjectSortField.RELEVANCE) {
+      throw new BadRequestException(
+        'Cursors are not available with sort=relevance; use page',
+      );
+    }
+
+    const cursor = decodeCursor((after ?? before)!);
+    if (cursor.sort !== (sort as string) || cursor.order !== direction) {
+      throw new BadRequestException(
+        'Cursor belongs to a different sort; start again without it',
+      );
+    }
+    return cursor;
+  }
+
+  // Text mode matches words and "quoted phrases"; negated words are
+  // excluded from the results, so there is nothing of them to highlight.
+  private highlightTerms(search: string, mode: SearchMode): string[] {
+    if (mode === SearchMode.LITERAL) return [search];
+    return Array.from(search.matchAll(/"[^"]+"|\S+/g), ([word]) => word)
+      .filter((word) => !word.startsWith('-'))
+      .map((word) => word.replace(/"/g, ''));
+  }
 
+  private toSafeProject(project: ProjectRecord): SafeProject {
     return {
       _id: project._id.toString(),
       title: project.title,
+      slug: project.slug ?? null,
       description: project.description,
       tags:
         project.tags?.map((tag) => {
@@ -276,37 +647,24 @@ export class ProjectsService {
       startingDate: project.startingDate ?? null,
       teamMember: project.teamMember,
       status: project.status,
+      createdBy: project.createdBy
+        ? this.toUserSummary(project.createdBy)
+        : null,
+      // Populate leaves null behind for purged accounts.
+      collaborators: (project.collaborators ?? [])
+        .filter(Boolean)
+        .map((collaborator) => this.toUserSummary(collaborator)),
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     };
   }
 
-  private extractPublicIdFromUrl(url: string): string | null {
-    // Extract public ID from Cloudinary URL
-    // Example: https://res.cloudinary.com/demo/image/upload/v1234567890/sample.jpg
-    // Public ID would be: sample
-    const match = url.match(/\/([^/]+)\.[^.]+$/);
-    return match ? match[1] : null;
-  }
-
-  async delete(id: string): Promise<{ deleted: boolean }> {
-    const project = await this.projectModel.findById(id);
-    if (!project) throw new NotFoundException(`Project #${id} not found`);
-
-    // Delete image from Cloudinary
-    if (project.image) {
-      try {
-        const publicId = this.extractPublicIdFromUrl(project.image);
-        if (publicId) {
-          await this.cloudinaryService.deleteFile(publicId);
-        }
-      } catch (error) {
-        // Log error but don't fail the deletion operation
-        console.error('Failed to delete image from Cloudinary:', error);
-      }
-    }
-
-    await this.projectModel.findByIdAndDelete(id);
-    return { deleted: true };
+  private toUserSummary(user: UserSummaryRecord): ProjectUserSummary {
+    return {
+      _id: user._id.toString(),
+      firstName: user.firstName,
+      lastName: user.lastName,
+      image: user.image ?? null,
+    };
   }
 }
@@ -1,5 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { HydratedDocument } from 'mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { tenantScopePlugin } from '../../../common/tenancy/tenant-scope.plugin';
+import { User } from '../../users/schemas/user.schema';
+import { softDeletePlugin } from '../../../common/plugins/soft-delete.plugin';
 
 export type ProjectDocument = HydratedDocument<Project>;
 
@@ -17,9 +20,22 @@ export enum ProjectStatus {
 
 @Schema({ timestamps: true })
 export class Project implements ProjectWithDate {
+  // Set and enforced by tenantScopePlugin from the active organization.
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organization!: Types.ObjectId;
+
   @Prop({ required: true, trim: true })
   title!: string;
 
+  // Derived from the title by ProjectsService; null only on projects that
+  // predate slugs until `npm run cli -- backfill-slugs` runs.
+  @Prop({ type: String, default: null })
+  slug!: string | null;
+
+  // Slugs of earlier titles, still resolved by GET /projects/by-slug/:slug.
+  @Prop({ type: [String], default: [] })
+  previousSlugs!: string[];
+
   @Prop({ required: true })
   description!: string;
 
@@ -53,9 +69,45 @@ export class Project implements ProjectWithDate {
   @Prop({ type: String, enum: ProjectStatus, default: ProjectStatus.PENDING })
   status!: ProjectStatus;
 
+  // Null for projects created before ownership was tracked; only project
+  // admins can edit those.
+  @Prop({ type: Types.ObjectId, ref: User.name, default: null, index: true })
+  createdBy!: Types.ObjectId | null;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: User.name }], default: [] })
+  collaborators!: Types.ObjectId[];
+
+  // Set while the project is in the trash; softDeletePlugin hides it from
+  // queries that do not ask for deleted projects.
+  @Prop({ type: Date, default: null })
+  deletedAt!: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: User.name, default: null })
+  deletedBy!: Types.ObjectId | null;
+
   // These are added by Mongoose timestamps
   createdAt!: Date;
   updatedAt!: Date;
 }
 
 export const ProjectSchema = SchemaFactory.createForClass(Project);
+
+ProjectSchema.plugin(tenantScopePlugin);
+ProjectSchema.plugin(softDeletePlugin);
+ProjectSchema.index({ organization: 1, createdAt: -1 });
+ProjectSchema.index(
+  { organization: 1, slug: 1 },
+  { unique: true, partialFilterExpression: { slug: { $type: 'string' } } },
+);
+ProjectSchema.index({ organization: 1, previousSlugs: 1 });
+ProjectSchema.index({ organization: 1, deletedAt: 1 });
+// The organization prefix keeps text searches within one tenant's entries;
+// tenantScopePlugin always supplies the equality match it needs.
+ProjectSchema.index(
+  { organization: 1, title: 'text', tags: 'text', description: 'text' },
+  {
+    name: 'project_text_search',
+    weights: { title: 10, tags: 5, description: 1 },
+    default_language: 'english',
+  },
+);
@@ -1,25 +1,16 @@
 import { ProjectStatus } from '../schemas/project.schema';
 
-export interface CreateProjectResponse {
+export interface ProjectUserSummary {
   _id: string;
-  title: string;
-  description: string;
-  tags: string[];
-  image: string;
-  liveUrl: string;
-  backendLiveUrl: string | null;
-  repoUrl: string | null;
-  backendRepoUrl: string | null;
-  startingDate: string | null;
-  teamMember: number;
-  status: ProjectStatus;
-  createdAt: Date;
-  updatedAt: Date;
+  firstName: string;
+  lastName: string;
+  image: string | null;
 }
 
 export interface SafeProject {
   _id: string;
   title: string;
+  slug: string | null;
   description: string;
   tags: string[];
   image: string;
@@ -30,10 +21,60 @@ export interface SafeProject {
   startingDate: string | null;
   teamMember: number;
   status: ProjectStatus;
+  createdBy: ProjectUserSummary | null;
+  collaborators: ProjectUserSummary[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/** A project in a personal data export, from any organization. */
+export interface ExportedProject extends SafeProject {
+  organization: string;
+  deletedAt: Date | null;
+}
+
+export interface TrashedProject extends SafeProject {
+  deletedAt: Date;
+  deletedBy: ProjectUserSummary | null;
+  /** When the scheduled purge removes the project and its image. */
+  purgeAfter: Date;
+}
+
+export interface ProjectHighlights {
+  /** HTML-escaped, with matches wrapped in `<mark>`. */
+  title: string;
+  /** An HTML-escaped excerpt around the first match. */
+  description: string;
+}
+
+export interface ProjectListItem extends SafeProject {
+  /** Text-search relevance; only set for text-mode searches. */
+  score?: number;
+  /** Only set when searching. */
+  highlights?: ProjectHighlights;
+}
+
+export interface ProjectSlugLookup {
+  project: SafeProject;
+  /** The canonical slug when an old one was requested, otherwise null. */
+  redirectTo: string | null;
+}
+
+export interface ProjectPage {
+  projects: ProjectListItem[];
+  total: number;
+  /** Null in cursor mode, where the page number is not known. */
+  page: number | null;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  /** Pass as `after` for the following page. */
+  nextCursor: string | null;
+  /** Pass as `before` for the preceding page. */
+  previousCursor: string | null;
+}
+
 export interface ProjectQuery {
   status?: ProjectStatus;
   tag?: string;
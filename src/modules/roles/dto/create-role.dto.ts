@@ -0,0 +1,27 @@
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Permission } from '../schemas/role.schema';
+
+export class CreateRoleDto {
+  @IsString()
+  @MaxLength(40)
+  @Matches(/^[a-z][a-z0-9-]*$/, {
+    message: 'name must be lowercase letters, digits and dashes',
+  })
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsArray()
+  @IsEnum(Permission, { each: true })
+  permissions!: Permission[];
+}
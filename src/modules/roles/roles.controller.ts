@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { SafeRole } from './types/role.types';
+import { Permission } from './schemas/role.schema';
+import { ApiResponse } from '../../common/types/global';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import type { JwtUser } from '../../common/types/auth.types';
+
+@Controller('roles')
+@RequirePermissions(Permission.ROLE_MANAGE)
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get()
+  async findAll(): Promise<ApiResponse<SafeRole[]>> {
+    const data = await this.rolesService.findAll();
+    return ApiResponse.success(data);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() user: JwtUser,
+    @Body() createRoleDto: CreateRoleDto,
+  ): Promise<ApiResponse<SafeRole>> {
+    const data = await this.rolesService.create(user, createRoleDto);
+    return ApiResponse.success(data, 'Role created');
+  }
+
+  @Patch(':name')
+  @HttpCode(HttpStatus.OK)
+  async update(
+    @CurrentUser() user: JwtUser,
+    @Param('name') name: string,
+    @Body() updateRoleDto: UpdateRoleDto,
+  ): Promise<ApiResponse<SafeRole>> {
+    const data = await this.rolesService.update(user, name, updateRoleDto);
+    return ApiResponse.success(data, 'Role updated');
+  }
+
+  @Delete(':name')
+  @HttpCode(HttpStatus.OK)
+  async remove(@Param('name') name: string): Promise<ApiResponse<null>> {
+    await this.rolesService.delete(name);
+    return ApiResponse.success(null, 'Role deleted');
+  }
+}
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { RolesService } from './roles.service';
+import { Permission, Role } from './schemas/role.schema';
+import { User, UserRole } from '../users/schemas/user.schema';
+import { JwtUser } from '../../common/types/auth.types';
+
+describe('RolesService', () => {
+  let service: RolesService;
+
+  const mockRoleModel = {
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    create: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockUserModel = {
+    countDocuments: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ permissionsCacheTtl: 60 }),
+  };
+
+  const admin = { userId: 'a1', role: UserRole.ADMIN } as JwtUser;
+  const roleManager = { userId: 'm1', role: 'role-manager' } as JwtUser;
+
+  const findOneResult = (value: unknown) => ({
+    lean: () => ({ exec: () => Promise.resolve(value) }),
+    exec: () => Promise.resolve(value),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        { provide: getModelToken(Role.name), useValue: mockRoleModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getPermissions', () => {
+    it('caches the permissions of a role', async () => {
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ permissions: [Permission.PROJECT_UPDATE] }),
+      );
+
+      await service.getPermissions('editor');
+      const permissions = await service.getPermissions('editor');
+
+      expect(permissions).toEqual([Permission.PROJECT_UPDATE]);
+      expect(mockRoleModel.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('grants nothing for an unknown role', async () => {
+      mockRoleModel.findOne.mockReturnValue(findOneResult(null));
+
+      await expect(service.getPermissions('ghost')).resolves.toEqual([]);
+    });
+
+    it('drops the cached entry when the role is updated', async () => {
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ permissions: [Permission.PROJECT_UPDATE] }),
+      );
+      await service.getPermissions('editor');
+      mockRoleModel.findOne.mockReturnValueOnce(
+        findOneResult({ permissions: Object.values(Permission) }),
+      );
+
+      mockRoleModel.findOneAndUpdate.mockReturnValue({
+        exec: () =>
+          Promise.resolve({
+            id: 'r1',
+            name: 'editor',
+            permissions: [Permission.PROJECT_DELETE],
+          }),
+      });
+      await service.update(admin, 'editor', {
+        permissions: [Permission.PROJECT_DELETE],
+      });
+
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ permissions: [Permission.PROJECT_DELETE] }),
+      );
+      await expect(service.getPermissions('editor')).resolves.toEqual([
+        Permission.PROJECT_DELETE,
+      ]);
+    });
+  });
+
+  it('rejects a duplicate role name', async () => {
+    mockRoleModel.findOne.mockReturnValue(findOneResult({ permissions: [] }));
+    mockRoleModel.exists.mockResolvedValue({ _id: 'r1' });
+
+    await expect(
+      service.create(admin, { name: 'editor', permissions: [] }),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('refuses to change the permissions of the admin role', async () => {
+    await expect(
+      service.update(roleManager, UserRole.ADMIN, { permissions: [] }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  describe('privilege checks', () => {
+    beforeEach(() => {
+      mockRoleModel.findOne.mockImplementation(({ name }: { name: string }) =>
+        findOneResult({
+          permissions:
+            name === 'role-manager'
+              ? [Permission.ROLE_MANAGE, Permission.PROJECT_UPDATE]
+              : [Permission.PROJECT_UPDATE],
+        }),
+      );
+    });
+
+    it('refuses to create a role with permissions the actor lacks', async () => {
+      await expect(
+        service.create(roleManager, {
+          name: 'auditor',
+          permissions: [Permission.AUDIT_READ],
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockRoleModel.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses to add permissions the actor lacks to a role', async () => {
+      await expect(
+        service.update(roleManager, 'editor', {
+          permissions: [Permission.PROJECT_UPDATE, Permission.USER_MANAGE],
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockRoleModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("refuses edits to the actor's own role", async () => {
+      await expect(
+        service.update(roleManager, 'role-manager', { description: 'x' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(mockRoleModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('creates a role within the actor permissions', async () => {
+      mockRoleModel.exists.mockResolvedValue(null);
+      mockRoleModel.create.mockResolvedValue({
+        id: 'r2',
+        name: 'editor',
+        permissions: [Permission.PROJECT_UPDATE],
+      });
+
+      await service.create(roleManager, {
+        name: 'editor',
+        permissions: [Permission.PROJECT_UPDATE],
+      });
+
+      expect(mockRoleModel.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('refuses built-in roles', async () => {
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ name: UserRole.USER, builtIn: true }),
+      );
+
+      await expect(service.delete(UserRole.USER)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('refuses roles that are still assigned', async () => {
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ name: 'editor', builtIn: false }),
+      );
+      mockUserModel.countDocuments.mockResolvedValue(2);
+
+      await expect(service.delete('editor')).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('deletes an unused custom role', async () => {
+      const deleteOne = jest.fn();
+      mockRoleModel.findOne.mockReturnValue(
+        findOneResult({ name: 'editor', builtIn: false, deleteOne }),
+      );
+      mockUserModel.countDocuments.mockResolvedValue(0);
+
+      await service.delete('editor');
+
+      expect(deleteOne).toHaveBeenCalled();
+    });
+  });
+});
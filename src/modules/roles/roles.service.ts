@@ -0,0 +1,179 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Permission, Role, RoleDocument } from './schemas/role.schema';
+import { User, UserDocument, UserRole } from '../users/schemas/user.schema';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+import { SafeRole } from './types/role.types';
+import { AuthConfig } from '../../config/auth.config';
+import { JwtUser } from '../../common/types/auth.types';
+
+interface CachedPermissions {
+  permissions: Permission[];
+  expiresAt: number;
+}
+
+@Injectable()
+export class RolesService implements OnModuleInit {
+  // Per-instance cache so guards do not hit MongoDB on every request. Other
+  // instances pick up role changes once their entry expires.
+  private readonly cache = new Map<string, CachedPermissions>();
+
+  constructor(
+    @InjectModel(Role.name)
+    private readonly roleModel: Model<RoleDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    // Admin always holds every permission, including ones added later; the
+    // user role is only created once so admins can adjust it.
+    await this.roleModel.updateOne(
+      { name: UserRole.ADMIN },
+      {
+        $set: { permissions: Object.values(Permission), builtIn: true },
+        $setOnInsert: { description: 'Full access' },
+      },
+      { upsert: true },
+    );
+    await this.roleModel.updateOne(
+      { name: UserRole.USER },
+      {
+        $set: { builtIn: true },
+        $setOnInsert: {
+          description: 'Default role for registered users',
+          permissions: [Permission.PROJECT_CREATE, Permission.PROJECT_UPDATE],
+        },
+      },
+      { upsert: true },
+    );
+  }
+
+  async findAll(): Promise<SafeRole[]> {
+    const roles = await this.roleModel.find().sort({ name: 1 }).exec();
+    return roles.map((role) => this.toSafeRole(role));
+  }
+
+  async exists(name: string): Promise<boolean> {
+    return (await this.roleModel.exists({ name })) !== null;
+  }
+
+  async create(
+    actor: JwtUser,
+    createRoleDto: CreateRoleDto,
+  ): Promise<SafeRole> {
+    await this.assertCanGrant(actor, createRoleDto.permissions);
+    if (await this.exists(createRoleDto.name)) {
+      throw new ConflictException(
+        `Role "${createRoleDto.name}" already exists`,
+      );
+    }
+
+    const role = await this.roleModel.create({
+      name: createRoleDto.name,
+      description: createRoleDto.description ?? null,
+      permissions: createRoleDto.permissions,
+    });
+    return this.toSafeRole(role);
+  }
+
+  async update(
+    actor: JwtUser,
+    name: string,
+    updateRoleDto: UpdateRoleDto,
+  ): Promise<SafeRole> {
+    if (name === actor.role) {
+      throw new ForbiddenException('You cannot edit your own role');
+    }
+    if (name === (UserRole.ADMIN as string) && updateRoleDto.permissions) {
+      throw new BadRequestException(
+        'The admin role always holds every permission',
+      );
+    }
+    await this.assertCanGrant(actor, [
+      ...(await this.getPermissions(name)),
+      ...(updateRoleDto.permissions ?? []),
+    ]);
+
+    const role = await this.roleModel
+      .findOneAndUpdate({ name }, updateRoleDto, { new: true })
+      .exec();
+    if (!role) throw new NotFoundException(`Role "${name}" not found`);
+
+    this.cache.delete(name);
+    return this.toSafeRole(role);
+  }
+
+  async delete(name: string): Promise<void> {
+    const role = await this.roleModel.findOne({ name }).exec();
+    if (!role) throw new NotFoundException(`Role "${name}" not found`);
+    if (role.builtIn) {
+      throw new BadRequestException('Built-in roles cannot be deleted');
+    }
+
+    const assigned = await this.userModel.countDocuments({ role: name });
+    if (assigned > 0) {
+      throw new BadRequestException(
+        `Role "${name}" is still assigned to ${assigned} user(s)`,
+      );
+    }
+
+    await role.deleteOne();
+    this.cache.delete(name);
+  }
+
+  /** Permissions granted by a role; unknown roles grant nothing. */
+  async getPermissions(name: string): Promise<Permission[]> {
+    const cached = this.cache.get(name);
+    if (cached && cached.expiresAt > Date.now()) return cached.permissions;
+
+    const role = await this.roleModel.findOne({ name }).lean().exec();
+    const permissions = role?.permissions ?? [];
+
+    const { permissionsCacheTtl } = this.configService.get<AuthConfig>('auth')!;
+    this.cache.set(name, {
+      permissions,
+      expiresAt: Date.now() + permissionsCacheTtl * 1000,
+    });
+    return permissions;
+  }
+
+  /**
+   * Throws unless the actor holds every given permission, so `role:manage`
+   * cannot be used to hand out more access than the actor has.
+   */
+  private async assertCanGrant(
+    actor: JwtUser,
+    permissions: Permission[],
+  ): Promise<void> {
+    const held = await this.getPermissions(actor.role);
+    if (permissions.some((permission) => !held.includes(permission))) {
+      throw new ForbiddenException(
+        'You cannot grant permissions you do not hold',
+      );
+    }
+  }
+
+  private toSafeRole(role: RoleDocument): SafeRole {
+    return {
+      _id: role.id,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtIn: role.builtIn,
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type RoleDocument = HydratedDocument<Role>;
+
+export enum Permission {
+  PROJECT_CREATE = 'project:create',
+  PROJECT_UPDATE = 'project:update',
+  PROJECT_DELETE = 'project:delete',
+  // Edit and delete projects created by others.
+  PROJECT_MANAGE = 'project:manage',
+  USER_MANAGE = 'user:manage',
+  USER_IMPERSONATE = 'user:impersonate',
+  ROLE_MANAGE = 'role:manage',
+  AUDIT_READ = 'audit:read',
+}
+
+@Schema({ timestamps: true })
+export class Role {
+  // Referenced by User.role, so it never changes once created.
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  name!: string;
+
+  @Prop({ type: String, default: null })
+  description!: string | null;
+
+  @Prop({ type: [String], enum: Permission, default: [] })
+  permissions!: Permission[];
+
+  // Seeded roles (see RolesService.onModuleInit) cannot be deleted.
+  @Prop({ default: false })
+  builtIn!: boolean;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const RoleSchema = SchemaFactory.createForClass(Role);
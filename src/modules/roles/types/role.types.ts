@@ -0,0 +1,11 @@
+import { Permission } from '../schemas/role.schema';
+
+export interface SafeRole {
+  _id: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  builtIn: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
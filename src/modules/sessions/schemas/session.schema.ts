@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+
+export type SessionDocument = HydratedDocument<Session>;
+
+@Schema({ timestamps: true })
+export class Session {
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true, index: true })
+  user!: Types.ObjectId;
+
+  // jti of the only refresh token of this family that may still be redeemed.
+  @Prop({ type: String, default: null, select: false })
+  refreshTokenId!: string | null;
+
+  // jti rotated out at `rotatedAt`. Within REFRESH_REUSE_GRACE seconds it
+  // still redeems to the current jti, so concurrent refreshes (two tabs) do
+  // not look like reuse.
+  @Prop({ type: String, default: null, select: false })
+  previousRefreshTokenId!: string | null;
+
+  @Prop({ type: Date, default: null })
+  rotatedAt!: Date | null;
+
+  // jti of the impersonation token the admin of this session may still use;
+  // cleared on stop-impersonation and gone along with the session.
+  @Prop({ type: String, default: null, select: false })
+  impersonationTokenId!: string | null;
+
+  @Prop({ type: String, default: null })
+  deviceLabel!: string | null;
+
+  @Prop({ type: String, default: null })
+  userAgent!: string | null;
+
+  @Prop({ type: String, default: null })
+  ip!: string | null;
+
+  @Prop({ type: Date, required: true })
+  lastUsedAt!: Date;
+
+  // MongoDB removes the document on its own once this date has passed.
+  @Prop({ type: Date, required: true, expires: 0 })
+  expiresAt!: Date;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { SessionsService } from './sessions.service';
+import { Session } from './schemas/session.schema';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  const mockSessionModel = {
+    findOneAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    deleteOne: jest.fn(),
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: getModelToken(Session.name),
+          useValue: mockSessionModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: () => ({ refreshReuseGrace: 10 }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('revoke', () => {
+    it('should only delete sessions owned by the user', async () => {
+      mockSessionModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+      const sessionId = '507f1f77bcf86cd799439011';
+
+      expect(await service.revoke('user-1', sessionId)).toBe(true);
+      expect(mockSessionModel.deleteOne).toHaveBeenCalledWith({
+        _id: sessionId,
+        user: 'user-1',
+      });
+    });
+
+    it('should return false for malformed ids without querying', async () => {
+      expect(await service.revoke('user-1', 'not-an-id')).toBe(false);
+      expect(mockSessionModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimRefreshToken', () => {
+    const sessionId = '507f1f77bcf86cd799439011';
+
+    // The session as the grace-window lookup finds it, or null.
+    const rotatedOut = (session: unknown) =>
+      mockSessionModel.findOne.mockReturnValue({
+        select: () => Promise.resolve(session),
+      });
+
+    it('should claim the latest token and rotate the family', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue({ _id: sessionId });
+
+      expect(
+        await service.claimRefreshToken(sessionId, 'user-1', 'jti-2', 'jti-3'),
+      ).toEqual({ status: 'claimed', refreshTokenId: 'jti-3' });
+      expect(mockSessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshTokenId: 'jti-2' }),
+        expect.objectContaining({
+          refreshTokenId: 'jti-3',
+          previousRefreshTokenId: 'jti-2',
+        }),
+      );
+      expect(mockSessionModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should redeem a token rotated out moments ago to the current jti', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      rotatedOut({ refreshTokenId: 'jti-3' });
+
+      expect(
+        await service.claimRefreshToken(sessionId, 'user-1', 'jti-2', 'jti-4'),
+      ).toEqual({ status: 'claimed', refreshTokenId: 'jti-3' });
+      const [filter] = mockSessionModel.findOne.mock.calls[0] as [
+        { previousRefreshTokenId: string; rotatedAt: { $gt: Date } },
+      ];
+      expect(filter.previousRefreshTokenId).toBe('jti-2');
+      expect(
+        Date.now() - filter.rotatedAt.$gt.getTime(),
+      ).toBeGreaterThanOrEqual(10_000);
+      expect(mockSessionModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a rotated token is replayed', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      rotatedOut(null);
+      mockSessionModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+
+      expect(
+        await service.claimRefreshToken(sessionId, 'user-1', 'jti-1', 'jti-4'),
+      ).toEqual({ status: 'reused' });
+      expect(mockSessionModel.deleteOne).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: sessionId, user: 'user-1' }),
+      );
+    });
+
+    it('should reject tokens of unknown or expired families', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      rotatedOut(null);
+      mockSessionModel.deleteOne.mockResolvedValue({ deletedCount: 0 });
+
+      expect(
+        await service.claimRefreshToken(sessionId, 'user-1', 'jti-1', 'jti-4'),
+      ).toEqual({ status: 'invalid' });
+    });
+  });
+
+  describe('impersonation', () => {
+    const sessionId = '507f1f77bcf86cd799439011';
+
+    it('should only accept the token stored on the admin session', async () => {
+      mockSessionModel.exists.mockResolvedValue(null);
+
+      expect(
+        await service.isImpersonationActive(sessionId, 'admin-1', 'jti-1'),
+      ).toBe(false);
+      expect(mockSessionModel.exists).toHaveBeenCalledWith(
+        expect.objectContaining({
+          _id: sessionId,
+          user: 'admin-1',
+          impersonationTokenId: 'jti-1',
+        }),
+      );
+    });
+
+    it('should clear the stored token when impersonation stops', async () => {
+      await service.endImpersonation(sessionId, 'admin-1', 'jti-1');
+
+      expect(mockSessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: sessionId, user: 'admin-1', impersonationTokenId: 'jti-1' },
+        { impersonationTokenId: null },
+      );
+    });
+
+    it('should not start on an ended session', async () => {
+      mockSessionModel.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+      expect(
+        await service.startImpersonation(sessionId, 'admin-1', 'jti-1'),
+      ).toBe(false);
+    });
+  });
+});
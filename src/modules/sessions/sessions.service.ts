@@ -0,0 +1,205 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model, Types } from 'mongoose';
+import { Session, SessionDocument } from './schemas/session.schema';
+import {
+  RefreshTokenClaim,
+  SafeSession,
+  SessionMetadata,
+} from './types/session.types';
+import { AuthConfig } from '../../config/auth.config';
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectModel(Session.name)
+    private readonly sessionModel: Model<SessionDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * The id is chosen by the caller so it can be embedded in the tokens before
+   * the session is written.
+   */
+  async create(
+    sessionId: Types.ObjectId,
+    userId: string,
+    refreshTokenId: string,
+    expiresAt: Date,
+    metadata: SessionMetadata,
+  ): Promise<void> {
+    await this.sessionModel.create({
+      _id: sessionId,
+      user: userId,
+      refreshTokenId,
+      ...metadata,
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Redeems a refresh token and rotates the family to `nextRefreshTokenId`.
+   * A session is a token family: only the jti issued by the latest rotation
+   * is accepted, plus the one just rotated out during a short grace window,
+   * which redeems to the current jti instead of rotating again. Presenting
+   * any other token of a live family means an old token was replayed, so the
+   * whole family is revoked.
+   */
+  async claimRefreshToken(
+    sessionId: string,
+    userId: string,
+    refreshTokenId: string,
+    nextRefreshTokenId: string,
+  ): Promise<RefreshTokenClaim> {
+    if (!isValidObjectId(sessionId)) return { status: 'invalid' };
+
+    const now = new Date();
+    const claimed = await this.sessionModel.findOneAndUpdate(
+      {
+        _id: sessionId,
+        user: userId,
+        refreshTokenId,
+        expiresAt: { $gt: now },
+      },
+      {
+        refreshTokenId: nextRefreshTokenId,
+        previousRefreshTokenId: refreshTokenId,
+        rotatedAt: now,
+        lastUsedAt: now,
+      },
+    );
+    if (claimed) {
+      return { status: 'claimed', refreshTokenId: nextRefreshTokenId };
+    }
+
+    const { refreshReuseGrace } = this.configService.get<AuthConfig>('auth')!;
+    const concurrent = await this.sessionModel
+      .findOne({
+        _id: sessionId,
+        user: userId,
+        previousRefreshTokenId: refreshTokenId,
+        rotatedAt: { $gt: new Date(now.getTime() - refreshReuseGrace * 1000) },
+        expiresAt: { $gt: now },
+      })
+      .select('+refreshTokenId');
+    if (concurrent?.refreshTokenId) {
+      return { status: 'claimed', refreshTokenId: concurrent.refreshTokenId };
+    }
+
+    const revoked = await this.sessionModel.deleteOne({
+      _id: sessionId,
+      user: userId,
+      expiresAt: { $gt: now },
+    });
+    return { status: revoked.deletedCount > 0 ? 'reused' : 'invalid' };
+  }
+
+  async extend(sessionId: string, expiresAt: Date): Promise<void> {
+    await this.sessionModel.findByIdAndUpdate(sessionId, { expiresAt });
+  }
+
+  async rotate(
+    sessionId: string,
+    refreshTokenId: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.sessionModel.findByIdAndUpdate(sessionId, {
+      refreshTokenId,
+      expiresAt,
+    });
+  }
+
+  /**
+   * Ties an impersonation token to the admin's live session, replacing any
+   * earlier one. Returns false when the session has ended.
+   */
+  async startImpersonation(
+    sessionId: string,
+    userId: string,
+    tokenId: string,
+  ): Promise<boolean> {
+    if (!isValidObjectId(sessionId)) return false;
+
+    const result = await this.sessionModel.updateOne(
+      { _id: sessionId, user: userId, expiresAt: { $gt: new Date() } },
+      { impersonationTokenId: tokenId },
+    );
+    return result.matchedCount > 0;
+  }
+
+  /** False once the token was stopped or the admin's session is gone. */
+  async isImpersonationActive(
+    sessionId: string,
+    userId: string,
+    tokenId: string,
+  ): Promise<boolean> {
+    if (!isValidObjectId(sessionId)) return false;
+
+    const session = await this.sessionModel.exists({
+      _id: sessionId,
+      user: userId,
+      impersonationTokenId: tokenId,
+      expiresAt: { $gt: new Date() },
+    });
+    return session !== null;
+  }
+
+  async endImpersonation(
+    sessionId: string,
+    userId: string,
+    tokenId: string,
+  ): Promise<void> {
+    if (!isValidObjectId(sessionId)) return;
+
+    await this.sessionModel.updateOne(
+      { _id: sessionId, user: userId, impersonationTokenId: tokenId },
+      { impersonationTokenId: null },
+    );
+  }
+
+  async findForUser(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SafeSession[]> {
+    const sessions = await this.sessionModel
+      .find({ user: userId, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+
+    return sessions.map((session) => ({
+      _id: session.id,
+      deviceLabel: session.deviceLabel,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /** Scoped to the owner so users can only ever revoke their own devices. */
+  async revoke(userId: string, sessionId: string): Promise<boolean> {
+    if (!isValidObjectId(sessionId)) return false;
+
+    const result = await this.sessionModel.deleteOne({
+      _id: sessionId,
+      user: userId,
+    });
+    return result.deletedCount > 0;
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await this.sessionModel.deleteMany({ user: userId });
+  }
+
+  /** Signs out every other device, keeping the session making the request. */
+  async revokeOthers(userId: string, keepSessionId: string): Promise<void> {
+    await this.sessionModel.deleteMany({
+      user: userId,
+      _id: { $ne: keepSessionId },
+    });
+  }
+}
@@ -0,0 +1,21 @@
+export interface SessionMetadata {
+  deviceLabel: string | null;
+  userAgent: string | null;
+  ip: string | null;
+}
+
+/** On success, `refreshTokenId` is the jti the next refresh token carries. */
+export type RefreshTokenClaim =
+  | { status: 'claimed'; refreshTokenId: string }
+  | { status: 'reused' | 'invalid' };
+
+export interface SafeSession {
+  _id: string;
+  deviceLabel: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,21 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+
+export class AcceptInvitationDto {
+  @IsString()
+  token!: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  firstName!: string;
+
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  lastName!: string;
+
+  // Strength rules live in PasswordPolicyService.
+  @IsString()
+  @MaxLength(100)
+  password!: string;
+}
@@ -0,0 +1,26 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class AdminUpdateUserDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  lastName?: string;
+
+  // Applied directly, but the new address has to be verified again.
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
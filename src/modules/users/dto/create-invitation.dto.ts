@@ -0,0 +1,10 @@
+import { IsEmail, IsString, MaxLength } from 'class-validator';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  @MaxLength(40)
+  role!: string;
+}
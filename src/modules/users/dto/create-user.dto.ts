@@ -1,12 +1,4 @@
-import {
-  IsEmail,
-  IsEnum,
-  IsOptional,
-  IsString,
-  MaxLength,
-  MinLength,
-} from 'class-validator';
-import { UserRole } from '../schemas/user.schema';
+import { IsEmail, IsString, MaxLength, MinLength } from 'class-validator';
 
 export class CreateUserDto {
   @IsString()
@@ -22,12 +14,8 @@ export class CreateUserDto {
   @IsEmail()
   email!: string;
 
+  // Strength rules live in PasswordPolicyService.
   @IsString()
-  @MinLength(8, { message: 'Password must be at least 8 characters' })
   @MaxLength(100)
   password!: string;
-
-  @IsOptional()
-  @IsEnum(UserRole)
-  role?: UserRole;
 }
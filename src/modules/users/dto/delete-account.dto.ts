@@ -0,0 +1,7 @@
+import { IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  // Re-entered so a stolen session cannot delete the account on its own.
+  @IsString()
+  password!: string;
+}
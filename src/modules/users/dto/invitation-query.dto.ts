@@ -0,0 +1,8 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { InvitationStatus } from '../schemas/invitation.schema';
+
+export class InvitationQueryDto {
+  @IsOptional()
+  @IsEnum(InvitationStatus)
+  status?: InvitationStatus;
+}
@@ -1,4 +1,20 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
+import {
+  IsEmail,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+/**
+ * How the login response hands over the tokens: httpOnly cookies for
+ * browsers, or the response body for mobile and other non-browser clients.
+ */
+export enum TokenDelivery {
+  COOKIE = 'cookie',
+  BODY = 'body',
+}
 
 export class LoginDto {
   @IsEmail()
@@ -7,4 +23,13 @@ export class LoginDto {
   @IsString()
   @MinLength(8)
   password!: string;
-}
\ No newline at end of file
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(60)
+  deviceLabel?: string;
+
+  @IsOptional()
+  @IsEnum(TokenDelivery)
+  tokenDelivery?: TokenDelivery;
+}
@@ -0,0 +1,7 @@
+import { IsString, MaxLength } from 'class-validator';
+
+export class UpdateUserRoleDto {
+  @IsString()
+  @MaxLength(40)
+  role!: string;
+}
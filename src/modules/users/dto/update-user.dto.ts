@@ -0,0 +1,26 @@
+import {
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export class UpdateUserDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  lastName?: string;
+
+  // Not applied directly: the new address must be confirmed first.
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationQueryDto } from './dto/invitation-query.dto';
+import { SafeInvitation } from './types/invitation.types';
+import { Permission } from '../roles/schemas/role.schema';
+import { ApiResponse } from '../../common/types/global';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import type { JwtUser } from '../../common/types/auth.types';
+
+// Invitees accept through the public POST /auth/accept-invitation.
+@Controller('users/invitations')
+@RequirePermissions(Permission.USER_MANAGE)
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async create(
+    @CurrentUser() admin: JwtUser,
+    @Body() createInvitationDto: CreateInvitationDto,
+  ): Promise<ApiResponse<SafeInvitation>> {
+    const data = await this.invitationsService.create(
+      admin,
+      createInvitationDto,
+    );
+    return ApiResponse.success(data, 'Invitation sent');
+  }
+
+  @Get()
+  async findAll(
+    @Query() query: InvitationQueryDto,
+  ): Promise<ApiResponse<SafeInvitation[]>> {
+    const data = await this.invitationsService.findAll(query);
+    return ApiResponse.success(data);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async revoke(
+    @CurrentUser() admin: JwtUser,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<null>> {
+    await this.invitationsService.revoke(admin, id);
+    return ApiResponse.success(null, 'Invitation revoked');
+  }
+}
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { InvitationsService } from './invitations.service';
+import { Invitation, InvitationStatus } from './schemas/invitation.schema';
+import { UsersService } from './users.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { JwtUser } from '../../common/types/auth.types';
+import { hashToken } from '../../common/utils/token.util';
+
+describe('InvitationsService', () => {
+  let service: InvitationsService;
+
+  const admin: JwtUser = {
+    userId: '507f1f77bcf86cd799439012',
+    email: 'admin@example.com',
+    role: 'admin',
+    sessionId: 'session-1',
+    twoFactorVerified: true,
+    authMethod: 'session',
+  };
+  const clientInfo = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const mockInvitationModel = {
+    create: jest.fn(),
+    deleteMany: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findByEmail: jest.fn(),
+    assertOutranks: jest.fn(),
+    create: jest.fn(),
+  };
+
+  const mockPasswordPolicy = { assertAcceptable: jest.fn() };
+  const mockRolesService = { exists: jest.fn() };
+  const mockAuditService = { record: jest.fn() };
+  const mockMailerService = { sendInvitation: jest.fn() };
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'auth'
+        ? { invitationExpiresIn: 3600 }
+        : { clientUrl: 'http://localhost:3000' },
+    ),
+  };
+
+  const invitation = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    id: 'invitation-id',
+    email: 'new@example.com',
+    role: 'editor',
+    invitedBy: new Types.ObjectId(admin.userId),
+    expiresAt: new Date(Date.now() + 3600_000),
+    acceptedAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        {
+          provide: getModelToken(Invitation.name),
+          useValue: mockInvitationModel,
+        },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: PasswordPolicyService, useValue: mockPasswordPolicy },
+        { provide: RolesService, useValue: mockRolesService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: MailerService, useValue: mockMailerService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<InvitationsService>(InvitationsService);
+  });
+
+  describe('create', () => {
+    it('stores only the token hash and mails the link', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockRolesService.exists.mockResolvedValue(true);
+      mockInvitationModel.create.mockImplementation(
+        (data: Record<string, unknown>) =>
+          Promise.resolve(invitation({ ...data, invitedBy: admin.userId })),
+      );
+
+      const result = await service.create(admin, {
+        email: 'New@Example.com',
+        role: 'Editor',
+      });
+
+      const [, url] = mockMailerService.sendInvitation.mock.calls[0] as [
+        string,
+        string,
+      ];
+      const token = new URL(url).searchParams.get('token')!;
+      expect(mockInvitationModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: 'new@example.com',
+          role: 'editor',
+          tokenHash: hashToken(token),
+        }),
+      );
+      expect(mockInvitationModel.deleteMany).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        acceptedAt: null,
+      });
+      expect(result.status).toBe(InvitationStatus.PENDING);
+    });
+
+    it('rejects addresses that already have an account', async () => {
+      mockUsersService.findByEmail.mockResolvedValue({ id: 'user-id' });
+
+      await expect(
+        service.create(admin, { email: 'taken@example.com', role: 'user' }),
+      ).rejects.toBeInstanceOf(ConflictException);
+    });
+
+    it('rejects unknown roles', async () => {
+      mockUsersService.findByEmail.mockResolvedValue(null);
+      mockRolesService.exists.mockResolvedValue(false);
+
+      await expect(
+        service.create(admin, { email: 'new@example.com', role: 'ghost' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('accept', () => {
+    const dto = {
+      token: 'token',
+      firstName: 'Ada',
+      lastName: 'Lovelace',
+      password: 'Correct-Horse-1',
+    };
+
+    it('creates a verified account with the invited role', async () => {
+      mockInvitationModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(invitation()),
+      });
+      mockUsersService.create.mockResolvedValue({ _id: 'user-id' });
+
+      await service.accept(dto, clientInfo);
+
+      expect(mockInvitationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tokenHash: hashToken('token'),
+          acceptedAt: null,
+        }),
+        expect.anything(),
+        expect.anything(),
+      );
+      expect(mockUsersService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'new@example.com' }),
+        null,
+        { role: 'editor', emailVerified: true },
+      );
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: AuditEvent.INVITATION_ACCEPTED }),
+      );
+    });
+
+    it('rejects used, expired or unknown tokens', async () => {
+      mockInvitationModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      await expect(service.accept(dto, clientInfo)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+      expect(mockUsersService.create).not.toHaveBeenCalled();
+    });
+
+    it('releases the invitation when the account cannot be created', async () => {
+      const claimed = invitation();
+      mockInvitationModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(claimed),
+      });
+      mockUsersService.create.mockRejectedValue(new ConflictException());
+
+      await expect(service.accept(dto, clientInfo)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+      expect(mockInvitationModel.updateOne).toHaveBeenCalledWith(
+        { _id: claimed._id },
+        { acceptedAt: null },
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { isValidObjectId, Model, QueryFilter } from 'mongoose';
+import {
+  Invitation,
+  InvitationDocument,
+  InvitationStatus,
+} from './schemas/invitation.schema';
+import { UsersService } from './users.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationQueryDto } from './dto/invitation-query.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { SafeInvitation } from './types/invitation.types';
+import { CreateUserResponse } from './types/user.types';
+import { RolesService } from '../roles/roles.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { AppConfig } from '../../config/app.config';
+import { AuthConfig } from '../../config/auth.config';
+import { ClientDetails, JwtUser } from '../../common/types/auth.types';
+import { generateToken, hashToken } from '../../common/utils/token.util';
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectModel(Invitation.name)
+    private readonly invitationModel: Model<InvitationDocument>,
+    private readonly usersService: UsersService,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly rolesService: RolesService,
+    private readonly auditService: AuditService,
+    private readonly mailerService: MailerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Invites an address with a preassigned role. Inviting the same address
+   * again replaces any invitation still pending for it.
+   */
+  async create(
+    actor: JwtUser,
+    createInvitationDto: CreateInvitationDto,
+  ): Promise<SafeInvitation> {
+    const email = createInvitationDto.email.toLowerCase();
+    const role = createInvitationDto.role.toLowerCase();
+
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException('Email already registered');
+    }
+    if (!(await this.rolesService.exists(role))) {
+      throw new BadRequestException(`Role "${role}" does not exist`);
+    }
+    await this.usersService.assertOutranks(actor, [role]);
+
+    const { invitationExpiresIn } = this.configService.get<AuthConfig>('auth')!;
+    const { clientUrl } = this.configService.get<AppConfig>('app')!;
+
+    await this.invitationModel.deleteMany({ email, acceptedAt: null });
+    const token = generateToken();
+    const invitation = await this.invitationModel.create({
+      email,
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: actor.userId,
+      expiresAt: new Date(Date.now() + invitationExpiresIn * 1000),
+    });
+
+    await this.mailerService.sendInvitation(
+      email,
+      `${clientUrl}/accept-invitation?token=${token}`,
+    );
+    await this.auditService.record({
+      event: AuditEvent.INVITATION_CREATED,
+      actorId: actor.userId,
+      metadata: { invitation: invitation.id, email, role },
+    });
+    return this.toSafeInvitation(invitation);
+  }
+
+  async findAll(query: InvitationQueryDto): Promise<SafeInvitation[]> {
+    const now = new Date();
+    const filter: QueryFilter<InvitationDocument> = {};
+    if (query.status === InvitationStatus.ACCEPTED) {
+      filter.acceptedAt = { $ne: null };
+    } else if (query.status === InvitationStatus.PENDING) {
+      filter.acceptedAt = null;
+      filter.expiresAt = { $gt: now };
+    } else if (query.status === InvitationStatus.EXPIRED) {
+      filter.acceptedAt = null;
+      filter.expiresAt = { $lte: now };
+    }
+
+    const invitations = await this.invitationModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .exec();
+    return invitations.map((invitation) => this.toSafeInvitation(invitation));
+  }
+
+  /** Only invitations that have not been used yet can be revoked. */
+  async revoke(actor: JwtUser, id: string): Promise<void> {
+    const invitation = isValidObjectId(id)
+      ? await this.invitationModel
+          .findOneAndDelete({ _id: id, acceptedAt: null })
+          .exec()
+      : null;
+    if (!invitation) throw new NotFoundException(`Invitation #${id} not found`);
+
+    await this.auditService.record({
+      event: AuditEvent.INVITATION_REVOKED,
+      actorId: actor.userId,
+      metadata: { invitation: id, email: invitation.email },
+    });
+  }
+
+  /**
+   * Creates the invited account with its preassigned role. The invitation is
+   * claimed atomically so a token works once, and released again if the
+   * account cannot be created.
+   */
+  async accept(
+    acceptInvitationDto: AcceptInvitationDto,
+    clientInfo: ClientDetails,
+  ): Promise<CreateUserResponse> {
+    // Checked before claiming so a weak password does not burn the token.
+    this.passwordPolicy.assertAcceptable(acceptInvitationDto.password);
+
+    const tokenHash = hashToken(acceptInvitationDto.token);
+    const invitation = await this.invitationModel
+      .findOneAndUpdate(
+        { tokenHash, acceptedAt: null, expiresAt: { $gt: new Date() } },
+        { acceptedAt: new Date() },
+        { new: true },
+      )
+      .exec();
+    if (!invitation) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    let user: CreateUserResponse;
+    try {
+      user = await this.usersService.create(
+        {
+          firstName: acceptInvitationDto.firstName,
+          lastName: acceptInvitationDto.lastName,
+          email: invitation.email,
+          password: acceptInvitationDto.password,
+        },
+        null,
+        // The invitation link proves the address belongs to the user.
+        { role: invitation.role, emailVerified: true },
+      );
+    } catch (error) {
+      await this.invitationModel.updateOne(
+        { _id: invitation._id },
+        { acceptedAt: null },
+      );
+      throw error;
+    }
+
+    await this.invitationModel.updateOne(
+      { _id: invitation._id },
+      { acceptedBy: user._id },
+    );
+    await this.auditService.record({
+      event: AuditEvent.INVITATION_ACCEPTED,
+      userId: user._id,
+      actorId: invitation.invitedBy.toString(),
+      ...clientInfo,
+      metadata: { invitation: invitation.id, role: invitation.role },
+    });
+    return user;
+  }
+
+  private toSafeInvitation(invitation: InvitationDocument): SafeInvitation {
+    const status = invitation.acceptedAt
+      ? InvitationStatus.ACCEPTED
+      : invitation.expiresAt > new Date()
+        ? InvitationStatus.PENDING
+        : InvitationStatus.EXPIRED;
+
+    return {
+      _id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      invitedBy: invitation.invitedBy.toString(),
+      status,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
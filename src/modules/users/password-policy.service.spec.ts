@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PasswordPolicyService } from './password-policy.service';
+import { WeakPasswordException } from '../../common/exceptions/weak-password.exception';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({
+      minLength: 10,
+      requireLowercase: true,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: false,
+      historySize: 3,
+    }),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+  });
+
+  describe('assertAcceptable', () => {
+    it('accepts a password meeting every rule', () => {
+      expect(() => service.assertAcceptable('Correct7Horse')).not.toThrow();
+    });
+
+    it('lists every broken rule', () => {
+      let error: unknown;
+      try {
+        service.assertAcceptable('short');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(WeakPasswordException);
+      expect((error as WeakPasswordException).getResponse()).toMatchObject({
+        message: [
+          'Password must be at least 10 characters',
+          'Password must contain an uppercase letter',
+          'Password must contain a digit',
+        ],
+      });
+    });
+
+    it('rejects common passwords and their simple variants', () => {
+      expect(() => service.assertAcceptable('Password123!')).toThrow(
+        WeakPasswordException,
+      );
+      expect(() => service.assertAcceptable('Sunshine2024')).toThrow(
+        WeakPasswordException,
+      );
+    });
+  });
+
+  describe('assertNotReused', () => {
+    it('rejects any of the last N passwords', async () => {
+      const hashes = await Promise.all(
+        ['Current1Pass', 'Previous1Pass'].map((p) => bcrypt.hash(p, 4)),
+      );
+
+      await expect(
+        service.assertNotReused('Previous1Pass', hashes),
+      ).rejects.toBeInstanceOf(WeakPasswordException);
+      await expect(
+        service.assertNotReused('Brand1NewPass', hashes),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  it('keeps N - 1 previous hashes, newest first', () => {
+    expect(service.nextHistory('current', ['older', 'oldest'])).toEqual([
+      'current',
+      'older',
+    ]);
+  });
+});
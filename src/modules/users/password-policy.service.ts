@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PasswordConfig } from '../../config/password.config';
+import { COMMON_PASSWORDS } from './data/common-passwords';
+import { WeakPasswordException } from '../../common/exceptions/weak-password.exception';
+
+/**
+ * The one place that decides what an acceptable password is. Used for
+ * registration, password changes and resets alike.
+ */
+@Injectable()
+export class PasswordPolicyService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /** Throws WeakPasswordException listing every rule the password breaks. */
+  assertAcceptable(password: string): void {
+    const policy = this.configService.get<PasswordConfig>('password')!;
+    const problems: string[] = [];
+
+    if (password.length < policy.minLength) {
+      problems.push(`Password must be at least ${policy.minLength} characters`);
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      problems.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      problems.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      problems.push('Password must contain a digit');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      problems.push('Password must contain a symbol');
+    }
+    if (this.isCommon(password)) {
+      problems.push('Password is too common, choose a less predictable one');
+    }
+
+    if (problems.length > 0) throw new WeakPasswordException(problems);
+  }
+
+  /**
+   * Rejects a password matching any of the given bcrypt hashes, which are
+   * the current password followed by the stored history.
+   */
+  async assertNotReused(password: string, hashes: string[]): Promise<void> {
+    const { historySize } = this.configService.get<PasswordConfig>('password')!;
+
+    for (const hash of hashes.slice(0, historySize)) {
+      if (await bcrypt.compare(password, hash)) {
+        throw new WeakPasswordException([
+          `Password must differ from your last ${historySize} passwords`,
+        ]);
+      }
+    }
+  }
+
+  /** History to store once `currentHash` is replaced by a new password. */
+  nextHistory(currentHash: string, history: string[]): string[] {
+    const { historySize } = this.configService.get<PasswordConfig>('password')!;
+    // The new password itself takes the remaining slot.
+    return [currentHash, ...history].slice(0, Math.max(historySize - 1, 0));
+  }
+
+  private isCommon(password: string): boolean {
+    const lower = password.toLowerCase();
+    const stem = lower.replace(/[^a-z]+$/, '');
+    return (
+      COMMON_PASSWORDS.has(lower) ||
+      (stem.length > 0 && COMMON_PASSWORDS.has(stem))
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { PersonalDataService } from './personal-data.service';
+import { UsersService } from './users.service';
+import { SessionsService } from '../sessions/sessions.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { ProjectsService } from '../projects/projects.service';
+
+describe('PersonalDataService', () => {
+  let service: PersonalDataService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const clientInfo = { ip: '127.0.0.1', userAgent: 'jest' };
+
+  const mockUsersService = {
+    findAccountRecord: jest.fn(),
+    verifyPassword: jest.fn(),
+    softDelete: jest.fn(),
+    purgeDeleted: jest.fn(),
+  };
+
+  const mockSessionsService = {
+    findForUser: jest.fn(),
+    revokeAll: jest.fn(),
+  };
+
+  const mockApiKeysService = {
+    findForUser: jest.fn(),
+    revokeAll: jest.fn(),
+  };
+
+  const mockAuditService = {
+    findForUser: jest.fn(),
+    record: jest.fn(),
+  };
+
+  const mockCloudinaryService = {
+    deleteByUrl: jest.fn(),
+  };
+
+  const mockOrganizationsService = {
+    assertNotSoleOwner: jest.fn(),
+    removeAllMemberships: jest.fn(),
+  };
+
+  const mockProjectsService = {
+    exportForUser: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ accountDeletionGraceDays: 30 }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalDataService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: SessionsService, useValue: mockSessionsService },
+        { provide: ApiKeysService, useValue: mockApiKeysService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: CloudinaryService, useValue: mockCloudinaryService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: OrganizationsService, useValue: mockOrganizationsService },
+        { provide: ProjectsService, useValue: mockProjectsService },
+      ],
+    }).compile();
+
+    service = module.get<PersonalDataService>(PersonalDataService);
+  });
+
+  describe('export', () => {
+    it('bundles the account with its sessions, keys, audit trail and projects', async () => {
+      mockUsersService.findAccountRecord.mockResolvedValue({ _id: userId });
+      mockSessionsService.findForUser.mockResolvedValue(['session']);
+      mockApiKeysService.findForUser.mockResolvedValue(['key']);
+      mockAuditService.findForUser.mockResolvedValue(['log']);
+      mockProjectsService.exportForUser.mockResolvedValue(['project']);
+
+      const result = await service.export(userId, clientInfo);
+
+      expect(result).toMatchObject({
+        account: { _id: userId },
+        sessions: ['session'],
+        apiKeys: ['key'],
+        auditLogs: ['log'],
+        projects: ['project'],
+      });
+      expect(mockProjectsService.exportForUser).toHaveBeenCalledWith(userId);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: AuditEvent.DATA_EXPORTED, userId }),
+      );
+    });
+  });
+
+  describe('deleteAccount', () => {
+    it('requires the current password', async () => {
+      mockUsersService.verifyPassword.mockResolvedValue(false);
+
+      await expect(
+        service.deleteAccount(userId, 'wrong', clientInfo),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(mockUsersService.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('refuses while the user is the only owner of an organization', async () => {
+      mockUsersService.verifyPassword.mockResolvedValue(true);
+      mockOrganizationsService.assertNotSoleOwner.mockRejectedValueOnce(
+        new ConflictException('You are the only owner of Acme'),
+      );
+
+      await expect(
+        service.deleteAccount(userId, 'secret', clientInfo),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockUsersService.softDelete).not.toHaveBeenCalled();
+    });
+
+    it('anonymises the account, signs it out and removes the avatar', async () => {
+      const image =
+        'https://res.cloudinary.com/demo/image/upload/v1/nest-practice/me.jpg';
+      mockUsersService.verifyPassword.mockResolvedValue(true);
+      mockUsersService.softDelete.mockResolvedValue({ image });
+
+      const { purgeAfter } = await service.deleteAccount(
+        userId,
+        'secret',
+        clientInfo,
+      );
+
+      expect(mockSessionsService.revokeAll).toHaveBeenCalledWith(userId);
+      expect(mockApiKeysService.revokeAll).toHaveBeenCalledWith(userId);
+      expect(
+        mockOrganizationsService.removeAllMemberships,
+      ).toHaveBeenCalledWith([userId]);
+      expect(mockCloudinaryService.deleteByUrl).toHaveBeenCalledWith(image);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ event: AuditEvent.ACCOUNT_DELETED, userId }),
+      );
+      expect(purgeAfter.getTime()).toBeGreaterThan(
+        Date.now() + 29 * 24 * 60 * 60 * 1000,
+      );
+    });
+  });
+
+  describe('purgeDeletedAccounts', () => {
+    it('purges accounts deleted before the grace period', async () => {
+      mockUsersService.purgeDeleted.mockResolvedValue([]);
+      const before = Date.now() - 30 * 24 * 60 * 60 * 1000;
+
+      await service.purgeDeletedAccounts();
+
+      const [cutoff] = mockUsersService.purgeDeleted.mock.calls[0] as [Date];
+      expect(Math.abs(cutoff.getTime() - before)).toBeLessThan(1000);
+      expect(
+        mockOrganizationsService.removeAllMemberships,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('drops the memberships of purged accounts', async () => {
+      mockUsersService.purgeDeleted.mockResolvedValue([userId]);
+
+      await service.purgeDeletedAccounts();
+
+      expect(
+        mockOrganizationsService.removeAllMemberships,
+      ).toHaveBeenCalledWith([userId]);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { UsersService } from './users.service';
+import { PersonalDataExport } from './types/user.types';
+import { SessionsService } from '../sessions/sessions.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { ProjectsService } from '../projects/projects.service';
+import { AuthConfig } from '../../config/auth.config';
+import { ClientDetails } from '../../common/types/auth.types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Data export and account deletion requested by the account owner. */
+@Injectable()
+export class PersonalDataService {
+  private readonly logger = new Logger(PersonalDataService.name);
+
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly auditService: AuditService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly configService: ConfigService,
+    private readonly organizationsService: OrganizationsService,
+    private readonly projectsService: ProjectsService,
+  ) {}
+
+  async export(
+    userId: string,
+    clientInfo: ClientDetails,
+  ): Promise<PersonalDataExport> {
+    const account = await this.usersService.findAccountRecord(userId);
+    if (!account) throw new NotFoundException('User not found');
+
+    const [sessions, apiKeys, auditLogs, projects] = await Promise.all([
+      this.sessionsService.findForUser(userId),
+      this.apiKeysService.findForUser(userId),
+      this.auditService.findForUser(userId),
+      this.projectsService.exportForUser(userId),
+    ]);
+
+    await this.auditService.record({
+      event: AuditEvent.DATA_EXPORTED,
+      userId,
+      ...clientInfo,
+    });
+    return {
+      exportedAt: new Date(),
+      account,
+      sessions,
+      apiKeys,
+      auditLogs,
+      projects,
+    };
+  }
+
+  /**
+   * Anonymises and blocks the account straight away, signs it out
+   * everywhere and drops its organization memberships. Refused while the
+   * user is the only owner of an organization. The tombstone record is
+   * removed by purgeDeletedAccounts once the grace period is over.
+   */
+  async deleteAccount(
+    userId: string,
+    password: string,
+    clientInfo: ClientDetails,
+  ): Promise<{ purgeAfter: Date }> {
+    if (!(await this.usersService.verifyPassword(userId, password))) {
+      throw new BadRequestException('Password is incorrect');
+    }
+    await this.organizationsService.assertNotSoleOwner(userId);
+
+    const deleted = await this.usersService.softDelete(userId);
+    if (!deleted) throw new NotFoundException('User not found');
+
+    await Promise.all([
+      this.sessionsService.revokeAll(userId),
+      this.apiKeysService.revokeAll(userId),
+      this.organizationsService.removeAllMemberships([userId]),
+    ]);
+    if (deleted.image) await this.cloudinaryService.deleteByUrl(deleted.image);
+
+    await this.auditService.record({
+      event: AuditEvent.ACCOUNT_DELETED,
+      userId,
+      ...clientInfo,
+    });
+    return { purgeAfter: new Date(Date.now() + this.gracePeriodMs()) };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeDeletedAccounts(): Promise<void> {
+    const purged = await this.usersService.purgeDeleted(
+      new Date(Date.now() - this.gracePeriodMs()),
+    );
+    if (purged.length === 0) return;
+
+    // Accounts deleted before memberships were dropped on deletion.
+    await this.organizationsService.removeAllMemberships(purged);
+    this.logger.log(`Purged ${purged.length} deleted account(s)`);
+  }
+
+  private gracePeriodMs(): number {
+    const { accountDeletionGraceDays } =
+      this.configService.get<AuthConfig>('auth')!;
+    return accountDeletionGraceDays * DAY_MS;
+  }
+}
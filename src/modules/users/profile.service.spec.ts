@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ProfileService } from './profile.service';
+import { UsersService } from './users.service';
+import { UserProfile } from './types/user.types';
+import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { JwtUser } from '../../common/types/auth.types';
+import { ImpersonationNotAllowedException } from '../../common/exceptions/impersonation-not-allowed.exception';
+import { hashToken } from '../../common/utils/token.util';
+
+describe('ProfileService', () => {
+  let service: ProfileService;
+
+  const mockUsersService = {
+    findProfile: jest.fn(),
+    updateProfile: jest.fn(),
+    isEmailTaken: jest.fn(),
+    setPendingEmail: jest.fn(),
+    confirmEmailChange: jest.fn(),
+  };
+
+  const mockCloudinaryService = {
+    uploadFile: jest.fn(),
+    deleteByUrl: jest.fn(),
+  };
+
+  const mockMailerService = {
+    sendEmailChange: jest.fn(),
+    sendEmailChangeNotice: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) =>
+      key === 'auth'
+        ? { emailVerificationExpiresIn: 3600 }
+        : { clientUrl: 'http://localhost:3000' },
+    ),
+  };
+
+  const user: JwtUser = {
+    userId: '507f1f77bcf86cd799439011',
+    email: 'ada@example.com',
+    role: 'user',
+    sessionId: 'session-1',
+    twoFactorVerified: false,
+    authMethod: 'session',
+  };
+
+  const profile = (overrides: Partial<UserProfile> = {}): UserProfile => ({
+    _id: user.userId,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    email: 'ada@example.com',
+    role: 'user',
+    image: null,
+    emailVerified: true,
+    twoFactorEnabled: false,
+    pendingEmail: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProfileService,
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: CloudinaryService, useValue: mockCloudinaryService },
+        { provide: MailerService, useValue: mockMailerService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<ProfileService>(ProfileService);
+  });
+
+  describe('update', () => {
+    it('rejects an empty update', async () => {
+      await expect(service.update(user, {}, undefined)).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('replaces the avatar and deletes the old image', async () => {
+      const oldImage =
+        'https://res.cloudinary.com/demo/image/upload/v1/nest-practice/old.jpg';
+      mockUsersService.findProfile.mockResolvedValue(
+        profile({ image: oldImage }),
+      );
+      mockCloudinaryService.uploadFile.mockResolvedValue({
+        url: 'https://res.cloudinary.com/demo/image/upload/v2/nest-practice/new.jpg',
+        publicId: 'nest-practice/new',
+      });
+      mockUsersService.updateProfile.mockResolvedValue(profile());
+
+      await service.update(user, {}, {} as Express.Multer.File);
+
+      expect(mockUsersService.updateProfile).toHaveBeenCalledWith(user.userId, {
+        image:
+          'https://res.cloudinary.com/demo/image/upload/v2/nest-practice/new.jpg',
+      });
+      expect(mockCloudinaryService.deleteByUrl).toHaveBeenCalledWith(oldImage);
+    });
+
+    it('records a new email as pending and mails both addresses', async () => {
+      mockUsersService.findProfile.mockResolvedValue(profile());
+      mockUsersService.isEmailTaken.mockResolvedValue(false);
+      mockUsersService.updateProfile.mockResolvedValue(profile());
+
+      const result = await service.update(
+        user,
+        { email: 'Ada@New.example' },
+        undefined,
+      );
+
+      expect(result.email).toBe('ada@example.com');
+      expect(result.pendingEmail).toBe('ada@new.example');
+      expect(mockUsersService.setPendingEmail).toHaveBeenCalledWith(
+        user.userId,
+        'ada@new.example',
+        expect.any(String),
+        expect.any(Date),
+      );
+      expect(mockMailerService.sendEmailChange).toHaveBeenCalledWith(
+        'ada@new.example',
+        expect.stringContaining('/confirm-email-change?token='),
+      );
+      expect(mockMailerService.sendEmailChangeNotice).toHaveBeenCalledWith(
+        'ada@example.com',
+        'ada@new.example',
+      );
+    });
+
+    it('rejects an email that belongs to another account', async () => {
+      mockUsersService.findProfile.mockResolvedValue(profile());
+      mockUsersService.isEmailTaken.mockResolvedValue(true);
+
+      await expect(
+        service.update(user, { email: 'taken@example.com' }, undefined),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(mockUsersService.updateProfile).not.toHaveBeenCalled();
+    });
+
+    it('refuses email changes while impersonating', async () => {
+      mockUsersService.findProfile.mockResolvedValue(profile());
+
+      await expect(
+        service.update(
+          {
+            ...user,
+            actor: {
+              userId: 'admin',
+              sessionId: 'admin-session',
+              tokenId: 'jti-1',
+            },
+          },
+          { email: 'new@example.com' },
+          undefined,
+        ),
+      ).rejects.toBeInstanceOf(ImpersonationNotAllowedException);
+    });
+  });
+
+  describe('confirmEmailChange', () => {
+    it('looks the change up by token hash', async () => {
+      mockUsersService.confirmEmailChange.mockResolvedValue(
+        profile({ email: 'ada@new.example' }),
+      );
+
+      const result = await service.confirmEmailChange(user.userId, 'token');
+
+      expect(mockUsersService.confirmEmailChange).toHaveBeenCalledWith(
+        user.userId,
+        hashToken('token'),
+      );
+      expect(result.email).toBe('ada@new.example');
+    });
+
+    it('rejects unknown or expired tokens', async () => {
+      mockUsersService.confirmEmailChange.mockResolvedValue(null);
+
+      await expect(
+        service.confirmEmailChange(user.userId, 'token'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UsersService } from './users.service';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { UserProfile } from './types/user.types';
+import { CloudinaryService } from '../../services/cloudinary/cloudinary.service';
+import { MailerService } from '../../services/mailer/mailer.service';
+import { AppConfig } from '../../config/app.config';
+import { AuthConfig } from '../../config/auth.config';
+import { JwtUser } from '../../common/types/auth.types';
+import { ImpersonationNotAllowedException } from '../../common/exceptions/impersonation-not-allowed.exception';
+import { generateToken, hashToken } from '../../common/utils/token.util';
+
+// Same folder registration uploads avatars to.
+const AVATAR_FOLDER = 'nest-practice';
+
+/** Self-service changes a user makes to their own account under /users/me. */
+@Injectable()
+export class ProfileService {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly cloudinaryService: CloudinaryService,
+    private readonly mailerService: MailerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getProfile(userId: string): Promise<UserProfile> {
+    const profile = await this.usersService.findProfile(userId);
+    if (!profile) throw new NotFoundException('User not found');
+    return profile;
+  }
+
+  /**
+   * Applies name and avatar changes straight away. A new email is only
+   * recorded as pending and mailed a confirmation link; the account keeps
+   * its current address until that link is used.
+   */
+  async update(
+    jwtUser: JwtUser,
+    updateUserDto: UpdateUserDto,
+    file: Express.Multer.File | undefined,
+  ): Promise<UserProfile> {
+    const { email, ...names } = updateUserDto;
+    if (Object.keys(updateUserDto).length === 0 && !file) {
+      throw new BadRequestException(
+        'At least one field must be provided for update',
+      );
+    }
+
+    const current = await this.getProfile(jwtUser.userId);
+    const newEmail = email?.toLowerCase();
+    const changesEmail = newEmail !== undefined && newEmail !== current.email;
+
+    // Checked before uploading so a rejected request leaves no stray image.
+    if (changesEmail) {
+      if (jwtUser.actor) throw new ImpersonationNotAllowedException();
+      if (await this.usersService.isEmailTaken(newEmail, jwtUser.userId)) {
+        throw new ConflictException('Email already registered');
+      }
+    }
+
+    let image: string | undefined;
+    if (file) {
+      const upload = await this.cloudinaryService.uploadFile(
+        file,
+        AVATAR_FOLDER,
+      );
+      image = upload.url;
+    }
+
+    const profile = await this.usersService.updateProfile(jwtUser.userId, {
+      ...names,
+      ...(image && { image }),
+    });
+    if (!profile) throw new NotFoundException('User not found');
+
+    if (image && current.image) {
+      await this.cloudinaryService.deleteByUrl(current.image);
+    }
+
+    if (changesEmail) {
+      await this.requestEmailChange(profile, newEmail);
+      profile.pendingEmail = newEmail;
+    }
+    return profile;
+  }
+
+  async confirmEmailChange(
+    userId: string,
+    token: string,
+  ): Promise<UserProfile> {
+    const profile = await this.usersService.confirmEmailChange(
+      userId,
+      hashToken(token),
+    );
+    if (!profile) {
+      throw new BadRequestException('Invalid or expired confirmation token');
+    }
+    return profile;
+  }
+
+  private async requestEmailChange(
+    profile: UserProfile,
+    newEmail: string,
+  ): Promise<void> {
+    const { emailVerificationExpiresIn } =
+      this.configService.get<AuthConfig>('auth')!;
+    const { clientUrl } = this.configService.get<AppConfig>('app')!;
+
+    const token = generateToken();
+    await this.usersService.setPendingEmail(
+      profile._id,
+      newEmail,
+      hashToken(token),
+      new Date(Date.now() + emailVerificationExpiresIn * 1000),
+    );
+
+    await this.mailerService.sendEmailChange(
+      newEmail,
+      `${clientUrl}/confirm-email-change?token=${token}`,
+    );
+    await this.mailerService.sendEmailChangeNotice(profile.email, newEmail);
+  }
+}
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from './user.schema';
+
+export type InvitationDocument = HydratedDocument<Invitation>;
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  EXPIRED = 'expired',
+}
+
+@Schema({ timestamps: true })
+export class Invitation {
+  @Prop({ required: true, lowercase: true, trim: true, index: true })
+  email!: string;
+
+  // Assigned to the account created from this invitation.
+  @Prop({ required: true })
+  role!: string;
+
+  @Prop({ required: true, unique: true, select: false })
+  tokenHash!: string;
+
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true })
+  invitedBy!: Types.ObjectId;
+
+  @Prop({ type: Date, required: true })
+  expiresAt!: Date;
+
+  // Set once the invitation has been used; it cannot be used again.
+  @Prop({ type: Date, default: null })
+  acceptedAt!: Date | null;
+
+  @Prop({ type: Types.ObjectId, ref: User.name, default: null })
+  acceptedBy!: Types.ObjectId | null;
+
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export const InvitationSchema = SchemaFactory.createForClass(Invitation);
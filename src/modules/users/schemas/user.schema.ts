@@ -3,6 +3,8 @@ import { HydratedDocument } from 'mongoose';
 
 export type UserDocument = HydratedDocument<User>;
 
+// Names of the built-in roles. Further roles live in the roles collection,
+// which is why User.role is a plain string.
 export enum UserRole {
   ADMIN = 'admin',
   USER  = 'user',
@@ -22,14 +24,75 @@ export class User {
   @Prop({ required: true, select: false })
   password!: string;
 
+  // bcrypt hashes of previous passwords, newest first, see PasswordPolicyService.
+  @Prop({ type: [String], default: [], select: false })
+  passwordHistory!: string[];
+
   @Prop({ type: String, default: null })
   image!: string | null;
 
-  @Prop({ type: String, enum: UserRole, default: UserRole.USER })
-  role!: UserRole;
+  @Prop({ default: false })
+  emailVerified!: boolean;
+
+  // A requested new address; `email` only changes once this one is verified.
+  @Prop({ type: String, default: null, lowercase: true, trim: true })
+  pendingEmail!: string | null;
+
+  @Prop({ type: String, default: null, select: false, index: true })
+  emailChangeTokenHash!: string | null;
+
+  @Prop({ type: Date, default: null, select: false })
+  emailChangeExpiresAt!: Date | null;
+
+  @Prop({ type: String, default: UserRole.USER, index: true })
+  role!: string;
+
+  // Deactivated accounts cannot sign in and their tokens stop working at once.
+  @Prop({ default: true, index: true })
+  isActive!: boolean;
+
+  // Set when the owner deletes the account; the anonymised record is purged
+  // once the grace period has passed.
+  @Prop({ type: Date, default: null, index: true })
+  deletedAt!: Date | null;
+
+  @Prop({ type: String, default: null, select: false, index: true })
+  passwordResetTokenHash!: string | null;
+
+  @Prop({ type: Date, default: null, select: false })
+  passwordResetExpiresAt!: Date | null;
+
+  @Prop({ type: String, default: null, select: false, index: true })
+  magicLinkTokenHash!: string | null;
+
+  @Prop({ type: Date, default: null, select: false })
+  magicLinkExpiresAt!: Date | null;
+
+  @Prop({ default: false })
+  twoFactorEnabled!: boolean;
 
   @Prop({ type: String, default: null, select: false })
-  hashedRefreshToken!: string | null;
+  twoFactorSecret!: string | null;
+
+  // Secret handed out during enrollment, promoted once a first code matches.
+  @Prop({ type: String, default: null, select: false })
+  twoFactorPendingSecret!: string | null;
+
+  @Prop({ type: [String], default: [], select: false })
+  twoFactorRecoveryCodes!: string[];
+
+  @Prop({ type: Number, default: 0, select: false })
+  failedLoginAttempts!: number;
+
+  @Prop({ type: Date, default: null })
+  lockedUntil!: Date | null;
+
+  // Last accepted TOTP time step; codes at or before it are replays.
+  @Prop({ type: Number, default: 0, select: false })
+  twoFactorLastStep!: number;
+
+  createdAt!: Date;
+  updatedAt!: Date;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
@@ -0,0 +1,12 @@
+import { InvitationStatus } from '../schemas/invitation.schema';
+
+export interface SafeInvitation {
+  _id: string;
+  email: string;
+  role: string;
+  invitedBy: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  createdAt: Date;
+}
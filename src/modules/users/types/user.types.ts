@@ -1,12 +1,17 @@
-import { UserRole } from '../schemas/user.schema';
+import { SafeSession } from '../../sessions/types/session.types';
+import { SafeApiKey } from '../../api-keys/types/api-key.types';
+import { SafeAuditLog } from '../../audit/types/audit.types';
+import { ExportedProject } from '../../projects/schemas/project.types';
 
 export interface CreateUserResponse {
   _id: string;
   firstName: string;
   lastName: string;
   email: string;
-  role: UserRole;
+  role: string;
   image: string | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
 }
 
 export interface SafeUser {
@@ -14,8 +19,53 @@ export interface SafeUser {
   firstName: string;
   lastName: string;
   email: string;
-  role: UserRole;
+  role: string;
   image: string | null;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+}
+
+/** What the account owner sees of themselves under /users/me. */
+export interface UserProfile extends SafeUser {
+  pendingEmail: string | null;
+}
+
+/** What administrators see when managing accounts. */
+export interface ManagedUser extends SafeUser {
+  isActive: boolean;
+  lockedUntil: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AccountRecord extends ManagedUser {
+  pendingEmail: string | null;
+}
+
+export interface UserPage {
+  users: ManagedUser[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/** Safe to show anyone, signed in or not. */
+export interface PublicUserProfile {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  image: string | null;
+}
+
+/** The downloadable archive served by GET /users/me/export. */
+export interface PersonalDataExport {
+  exportedAt: Date;
+  account: AccountRecord;
+  sessions: SafeSession[];
+  apiKeys: SafeApiKey[];
+  auditLogs: SafeAuditLog[];
+  /** Projects the user created or collaborates on, trash included. */
+  projects: ExportedProject[];
 }
 
 export interface UserCredentials {
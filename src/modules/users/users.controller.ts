@@ -1,17 +1,261 @@
-import { Controller, Get } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import { UsersService } from './users.service';
 import { Public } from 'src/common/decorators/public.decorator';
 import { ApiResponse } from 'src/common/types/global';
-import { SafeUser } from './types/user.types';
+import {
+  ManagedUser,
+  PublicUserProfile,
+  SafeUser,
+  UserPage,
+  UserProfile,
+} from './types/user.types';
+import { RequirePermissions } from 'src/common/decorators/permissions.decorator';
+import { CurrentUser } from 'src/common/decorators/current-user.decorator';
+import type { ClientDetails, JwtUser } from 'src/common/types/auth.types';
+import { ClientInfo } from 'src/common/decorators/client-info.decorator';
+import { Permission } from '../roles/schemas/role.schema';
+import { AuditService } from '../audit/audit.service';
+import { AuditEvent } from '../audit/schemas/audit-log.schema';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { UpdateUserDto } from './dto/update-user.dto';
+import { ConfirmEmailChangeDto } from './dto/confirm-email-change.dto';
+import { ProfileService } from './profile.service';
+import { UserQueryDto } from './dto/user-query.dto';
+import { AdminUpdateUserDto } from './dto/admin-update-user.dto';
+import { SessionsService } from '../sessions/sessions.service';
+import { PersonalDataService } from './personal-data.service';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { imageMulterOptions } from 'src/config/multer.config';
+import { DisallowImpersonation } from 'src/common/decorators/disallow-impersonation.decorator';
+import { AuthService } from '../auth/auth.service';
 
 @Controller('users')
 export class UsersController {
-  constructor(private readonly userService: UsersService) {}
+  constructor(
+    private readonly userService: UsersService,
+    private readonly auditService: AuditService,
+    private readonly profileService: ProfileService,
+    private readonly sessionsService: SessionsService,
+    private readonly personalDataService: PersonalDataService,
+    private readonly authService: AuthService,
+  ) {}
 
   @Get()
-  @Public()
-  async getUsers(): Promise<ApiResponse<SafeUser[]>> {
-    const users = await this.userService.getAllUsers();
+  @RequirePermissions(Permission.USER_MANAGE)
+  async getUsers(@Query() query: UserQueryDto): Promise<ApiResponse<UserPage>> {
+    const users = await this.userService.findAll(query);
     return ApiResponse.success(users);
   }
+
+  @Get('me')
+  async getMe(@CurrentUser() user: JwtUser): Promise<ApiResponse<UserProfile>> {
+    const profile = await this.profileService.getProfile(user.userId);
+    return ApiResponse.success(profile);
+  }
+
+  @Patch('me')
+  @UseInterceptors(FileInterceptor('image', imageMulterOptions))
+  async updateMe(
+    @CurrentUser() user: JwtUser,
+    @Body() updateUserDto: UpdateUserDto,
+    @UploadedFile()
+    file: Express.Multer.File | undefined,
+  ): Promise<ApiResponse<UserProfile>> {
+    const profile = await this.profileService.update(user, updateUserDto, file);
+    return ApiResponse.success(
+      profile,
+      updateUserDto.email &&
+        profile.pendingEmail === updateUserDto.email.toLowerCase()
+        ? 'Profile updated; confirm your new email address to finish the change'
+        : 'Profile updated',
+    );
+  }
+
+  @Post('me/email/confirm')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async confirmEmailChange(
+    @CurrentUser() user: JwtUser,
+    @Body() confirmEmailChangeDto: ConfirmEmailChangeDto,
+  ): Promise<ApiResponse<UserProfile>> {
+    const profile = await this.profileService.confirmEmailChange(
+      user.userId,
+      confirmEmailChangeDto.token,
+    );
+    return ApiResponse.success(profile, 'Email address changed');
+  }
+
+  // Served as a file download rather than in the ApiResponse envelope.
+  @Get('me/export')
+  @DisallowImpersonation()
+  async exportMe(
+    @CurrentUser() user: JwtUser,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res() res: Response,
+  ): Promise<void> {
+    const data = await this.personalDataService.export(user.userId, clientInfo);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="account-${user.userId}.json"`,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(data);
+  }
+
+  @Delete('me')
+  @HttpCode(HttpStatus.OK)
+  @DisallowImpersonation()
+  async deleteMe(
+    @CurrentUser() user: JwtUser,
+    @Body() deleteAccountDto: DeleteAccountDto,
+    @ClientInfo() clientInfo: ClientDetails,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ApiResponse<{ purgeAfter: Date }>> {
+    const data = await this.personalDataService.deleteAccount(
+      user.userId,
+      deleteAccountDto.password,
+      clientInfo,
+    );
+    res.clearCookie('accessToken');
+    res.clearCookie('refreshToken');
+    return ApiResponse.success(data, 'Account deleted');
+  }
+
+  @Get(':id/profile')
+  @Public()
+  async getPublicProfile(
+    @Param('id') id: string,
+  ): Promise<ApiResponse<PublicUserProfile>> {
+    const profile = await this.userService.findPublicProfile(id);
+    if (!profile) throw new NotFoundException(`User #${id} not found`);
+    return ApiResponse.success(profile);
+  }
+
+  @Get(':id')
+  @RequirePermissions(Permission.USER_MANAGE)
+  async getUser(@Param('id') id: string): Promise<ApiResponse<ManagedUser>> {
+    const user = await this.userService.findManagedById(id);
+    if (!user) throw new NotFoundException(`User #${id} not found`);
+    return ApiResponse.success(user);
+  }
+
+  @Patch(':id')
+  @RequirePermissions(Permission.USER_MANAGE)
+  async updateUser(
+    @Param('id') id: string,
+    @Body() adminUpdateUserDto: AdminUpdateUserDto,
+    @CurrentUser() admin: JwtUser,
+  ): Promise<ApiResponse<ManagedUser>> {
+    const { user, changed } = await this.userService.adminUpdate(
+      admin,
+      id,
+      adminUpdateUserDto,
+    );
+    // A new address has to be verified before the user can sign in again.
+    if (adminUpdateUserDto.email && !user.emailVerified) {
+      await this.authService.resendVerification(user.email);
+    }
+
+    await this.auditService.record({
+      event: AuditEvent.USER_UPDATED,
+      userId: id,
+      actorId: admin.userId,
+      metadata: { fields: changed },
+    });
+    return ApiResponse.success(user, 'User updated');
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USER_MANAGE)
+  async unlock(
+    @Param('id') id: string,
+    @CurrentUser() admin: JwtUser,
+  ): Promise<ApiResponse<null>> {
+    const unlocked = await this.userService.unlock(id);
+    if (!unlocked) throw new NotFoundException(`User #${id} not found`);
+
+    await this.auditService.record({
+      event: AuditEvent.ACCOUNT_UNLOCKED,
+      userId: id,
+      actorId: admin.userId,
+    });
+    return ApiResponse.success(null, 'Account unlocked');
+  }
+
+  @Patch(':id/role')
+  @RequirePermissions(Permission.USER_MANAGE)
+  async changeRole(
+    @Param('id') id: string,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+    @CurrentUser() admin: JwtUser,
+  ): Promise<ApiResponse<SafeUser>> {
+    const { user, previousRole } = await this.userService.changeRole(
+      admin,
+      id,
+      updateUserRoleDto.role,
+    );
+    // Access tokens carry the role claim; API keys read the current role.
+    await this.sessionsService.revokeAll(id);
+
+    await this.auditService.record({
+      event: AuditEvent.ROLE_CHANGED,
+      userId: id,
+      actorId: admin.userId,
+      metadata: { from: previousRole, to: user.role },
+    });
+    return ApiResponse.success(user, 'Role updated');
+  }
+
+  @Post(':id/deactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USER_MANAGE)
+  async deactivate(
+    @Param('id') id: string,
+    @CurrentUser() admin: JwtUser,
+  ): Promise<ApiResponse<ManagedUser>> {
+    const user = await this.userService.setActive(admin, id, false);
+    await this.sessionsService.revokeAll(id);
+
+    await this.auditService.record({
+      event: AuditEvent.ACCOUNT_DEACTIVATED,
+      userId: id,
+      actorId: admin.userId,
+    });
+    return ApiResponse.success(user, 'Account deactivated');
+  }
+
+  @Post(':id/reactivate')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.USER_MANAGE)
+  async reactivate(
+    @Param('id') id: string,
+    @CurrentUser() admin: JwtUser,
+  ): Promise<ApiResponse<ManagedUser>> {
+    const user = await this.userService.setActive(admin, id, true);
+
+    await this.auditService.record({
+      event: AuditEvent.ACCOUNT_REACTIVATED,
+      userId: id,
+      actorId: admin.userId,
+    });
+    return ApiResponse.success(user, 'Account reactivated');
+  }
 }
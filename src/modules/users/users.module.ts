@@ -1,15 +1,53 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { UsersService } from './users.service';
 import { User, UserSchema } from './schemas/user.schema';
 import { UsersController } from './users.controller';
+import { PasswordPolicyService } from './password-policy.service';
+import { AuditModule } from '../audit/audit.module';
+import { RolesModule } from '../roles/roles.module';
+import { ProfileService } from './profile.service';
+import { CloudinaryModule } from '../../services/cloudinary/cloudinary.module';
+import { MailerModule } from '../../services/mailer/mailer.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { PersonalDataService } from './personal-data.service';
+import { InvitationsService } from './invitations.service';
+import { InvitationsController } from './invitations.controller';
+import { Invitation, InvitationSchema } from './schemas/invitation.schema';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: Invitation.name, schema: InvitationSchema },
+    ]),
+    AuditModule,
+    RolesModule,
+    CloudinaryModule,
+    MailerModule,
+    SessionsModule,
+    ApiKeysModule,
+    // Both depend on UsersModule; PersonalDataService exports and cleans
+    // up the memberships and projects of an account.
+    forwardRef(() => OrganizationsModule),
+    forwardRef(() => ProjectsModule),
+    // Admin email changes send the verification link through AuthService.
+    forwardRef(() => AuthModule),
   ],
-  controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  // InvitationsController first, or GET /users/:id would swallow
+  // GET /users/invitations.
+  controllers: [InvitationsController, UsersController],
+  providers: [
+    UsersService,
+    PasswordPolicyService,
+    ProfileService,
+    PersonalDataService,
+    InvitationsService,
+  ],
+  exports: [UsersService, PasswordPolicyService, InvitationsService],
 })
 export class UsersModule {}
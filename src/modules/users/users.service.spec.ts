@@ -1,19 +1,44 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
+import * as bcrypt from 'bcrypt';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { User } from './schemas/user.schema';
+import { PasswordPolicyService } from './password-policy.service';
+import { RolesService } from '../roles/roles.service';
+import { Permission } from '../roles/schemas/role.schema';
+import { JwtUser } from '../../common/types/auth.types';
+import { UserSortField } from './dto/user-query.dto';
+import { SortOrder } from '../../common/types/query.types';
 
 describe('UsersService', () => {
   let service: UsersService;
 
+  const mockUserModel = {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOne: jest.fn(),
+    find: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockRolesService = {
+    exists: jest.fn(),
+    getPermissions: jest.fn(),
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         UsersService,
         {
           provide: getModelToken(User.name),
-          useValue: {},
+          useValue: mockUserModel,
         },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: RolesService, useValue: mockRolesService },
       ],
     }).compile();
 
@@ -23,4 +48,180 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findAll', () => {
+    let query: {
+      sort: jest.Mock;
+      skip: jest.Mock;
+      limit: jest.Mock;
+      exec: jest.Mock;
+    };
+
+    beforeEach(() => {
+      query = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      mockUserModel.find.mockReturnValue(query);
+      mockUserModel.countDocuments.mockResolvedValue(0);
+    });
+
+    it('builds an escaped, case-insensitive search with filters', async () => {
+      await service.findAll({
+        search: 'a.b+',
+        role: 'Editor',
+        isActive: false,
+      });
+
+      const pattern = /a\.b\+/i;
+      expect(mockUserModel.find).toHaveBeenCalledWith({
+        deletedAt: null,
+        role: 'editor',
+        isActive: false,
+        $or: [
+          { firstName: pattern },
+          { lastName: pattern },
+          { email: pattern },
+        ],
+      });
+    });
+
+    it('sorts and pages as requested', async () => {
+      const result = await service.findAll({
+        sortBy: UserSortField.EMAIL,
+        order: SortOrder.ASC,
+        page: 3,
+        limit: 10,
+      });
+
+      expect(query.sort).toHaveBeenCalledWith({ email: 1, _id: 1 });
+      expect(query.skip).toHaveBeenCalledWith(20);
+      expect(query.limit).toHaveBeenCalledWith(10);
+      expect(result).toEqual({ users: [], total: 0, page: 3, limit: 10 });
+    });
+  });
+
+  describe('changePassword', () => {
+    const userId = '507f1f77bcf86cd799439011';
+
+    it('refuses a wrong current password without changing anything', async () => {
+      const password = await bcrypt.hash('current-password', 4);
+      mockUserModel.findById.mockReturnValue({
+        select: () => ({ exec: () => Promise.resolve({ password }) }),
+      });
+
+      await expect(
+        service.changePassword(userId, 'wrong-password', 'New-password-1'),
+      ).rejects.toThrow('Current password is incorrect');
+      expect(mockUserModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changeRole', () => {
+    const targetId = '507f1f77bcf86cd799439011';
+    const actor: JwtUser = {
+      userId: '507f1f77bcf86cd799439012',
+      email: 'lead@example.com',
+      role: 'lead',
+      sessionId: 'session-1',
+      twoFactorVerified: true,
+      authMethod: 'session',
+    };
+
+    const permissionsByRole: Record<string, Permission[]> = {
+      lead: [Permission.PROJECT_CREATE, Permission.USER_MANAGE],
+      user: [Permission.PROJECT_CREATE],
+      admin: Object.values(Permission),
+    };
+
+    let target: { id: string; role: string; save: jest.Mock };
+
+    beforeEach(() => {
+      target = { id: targetId, role: 'user', save: jest.fn() };
+      mockUserModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(target),
+      });
+      mockRolesService.exists.mockResolvedValue(true);
+      mockRolesService.getPermissions.mockImplementation((role: string) =>
+        Promise.resolve(permissionsByRole[role] ?? []),
+      );
+    });
+
+    it('refuses to change the caller’s own role', async () => {
+      await expect(
+        service.changeRole(actor, actor.userId, 'admin'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('rejects unknown roles', async () => {
+      mockRolesService.exists.mockResolvedValue(false);
+
+      await expect(
+        service.changeRole(actor, targetId, 'ghost'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(target.save).not.toHaveBeenCalled();
+    });
+
+    it('forbids granting permissions the actor does not hold', async () => {
+      await expect(
+        service.changeRole(actor, targetId, 'admin'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(target.save).not.toHaveBeenCalled();
+    });
+
+    it('forbids demoting a user who outranks the actor', async () => {
+      target.role = 'admin';
+
+      await expect(
+        service.changeRole(actor, targetId, 'user'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('saves the new role and reports the previous one', async () => {
+      const result = await service.changeRole(actor, targetId, 'Lead');
+
+      expect(target.save).toHaveBeenCalled();
+      expect(result.previousRole).toBe('user');
+      expect(result.user.role).toBe('lead');
+    });
+  });
+
+  describe('setActive', () => {
+    const actor: JwtUser = {
+      userId: '507f1f77bcf86cd799439012',
+      email: 'admin@example.com',
+      role: 'admin',
+      sessionId: 'session-1',
+      twoFactorVerified: true,
+      authMethod: 'session',
+    };
+
+    it('refuses to deactivate the caller', async () => {
+      await expect(
+        service.setActive(actor, actor.userId, false),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('stores the new state', async () => {
+      const target = {
+        id: '507f1f77bcf86cd799439011',
+        role: 'user',
+        isActive: true,
+        save: jest.fn(),
+      };
+      mockUserModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(target),
+      });
+      mockRolesService.getPermissions.mockResolvedValue(
+        Object.values(Permission),
+      );
+
+      const result = await service.setActive(actor, target.id, false);
+
+      expect(target.save).toHaveBeenCalled();
+      expect(result.isActive).toBe(false);
+    });
+  });
 });
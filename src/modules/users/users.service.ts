@@ -1,10 +1,32 @@
-import { Injectable, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { isValidObjectId, Model, QueryFilter } from 'mongoose';
 import * as bcrypt from 'bcrypt';
-import { User, UserDocument } from './schemas/user.schema';
+import { User, UserDocument, UserRole } from './schemas/user.schema';
 import { CreateUserDto } from './dto/create-user.dto';
-import { CreateUserResponse, SafeUser } from './types/user.types';
+import { AdminUpdateUserDto } from './dto/admin-update-user.dto';
+import { UserQueryDto, UserSortField } from './dto/user-query.dto';
+import { SortOrder } from '../../common/types/query.types';
+import {
+  AccountRecord,
+  CreateUserResponse,
+  ManagedUser,
+  PublicUserProfile,
+  SafeUser,
+  UserPage,
+  UserProfile,
+} from './types/user.types';
+import { PasswordPolicyService } from './password-policy.service';
+import { RolesService } from '../roles/roles.service';
+import type { JwtUser } from '../../common/types/auth.types';
+import { escapeRegex } from '../../common/utils/regex.util';
+import { generateToken } from '../../common/utils/token.util';
 
 const SALT_ROUNDS = 12;
 
@@ -12,25 +34,67 @@ const SALT_ROUNDS = 12;
 export class UsersService {
   constructor(
     @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    private readonly passwordPolicy: PasswordPolicyService,
+    private readonly rolesService: RolesService,
   ) {}
 
-  async getAllUsers(): Promise<SafeUser[]> {
-    const users = await this.userModel
-      .find()
-      .select('firstName lastName email role image createdAt updatedAt')
-      .lean<SafeUser[]>();
-    return users;
+  async findAll(query: UserQueryDto): Promise<UserPage> {
+    const {
+      search,
+      role,
+      isActive,
+      sortBy = UserSortField.CREATED_AT,
+      order = SortOrder.DESC,
+      page = 1,
+      limit = 20,
+    } = query;
+
+    const filter: QueryFilter<UserDocument> = { deletedAt: null };
+    if (role) filter.role = role.toLowerCase();
+    if (isActive !== undefined) filter.isActive = isActive;
+    if (search) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      filter.$or = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { email: pattern },
+      ];
+    }
+
+    const [users, total] = await Promise.all([
+      this.userModel
+        .find(filter)
+        // _id breaks ties so pages do not overlap on equal sort values.
+        .sort({ [sortBy]: order === SortOrder.ASC ? 1 : -1, _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.userModel.countDocuments(filter),
+    ]);
+
+    return {
+      users: users.map((user) => this.toManagedUser(user)),
+      total,
+      page,
+      limit,
+    };
   }
 
+  /**
+   * `extras` is for trusted callers only (invitations, the CLI); public
+   * registration always gets the defaults.
+   */
   async create(
     createUserDto: CreateUserDto,
     imageUrl: string | null,
+    extras: { role?: string; emailVerified?: boolean } = {},
   ): Promise<CreateUserResponse> {
     const exists = await this.userModel.findOne({
       email: createUserDto.email.toLowerCase(),
     });
     if (exists) throw new ConflictException('Email already registered');
 
+    this.passwordPolicy.assertAcceptable(createUserDto.password);
     const hashedPassword = await bcrypt.hash(
       createUserDto.password,
       SALT_ROUNDS,
@@ -41,6 +105,7 @@ export class UsersService {
       email: createUserDto.email.toLowerCase(),
       password: hashedPassword,
       image: imageUrl,
+      ...extras,
     });
 
     return {
@@ -50,6 +115,8 @@ export class UsersService {
       email: user.email,
       role: user.role,
       image: user.image,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
     };
   }
 
@@ -65,39 +132,597 @@ export class UsersService {
   }
 
   async findSafeById(id: string): Promise<SafeUser | null> {
+    const user = await this.userModel.findById(id).exec();
+    return user ? this.toSafeUser(user) : null;
+  }
+
+  async findManagedById(id: string): Promise<ManagedUser | null> {
+    if (!isValidObjectId(id)) return null;
+    const user = await this.userModel
+      .findOne({ _id: id, deletedAt: null })
+      .exec();
+    return user ? this.toManagedUser(user) : null;
+  }
+
+  /** The account's own record as handed out in a personal data export. */
+  async findAccountRecord(id: string): Promise<AccountRecord | null> {
     const user = await this.userModel.findById(id).exec();
     if (!user) return null;
+    return { ...this.toManagedUser(user), pendingEmail: user.pendingEmail };
+  }
+
+  /** Only active accounts have a public profile. */
+  async findPublicProfile(id: string): Promise<PublicUserProfile | null> {
+    if (!isValidObjectId(id)) return null;
+    const user = await this.userModel
+      .findOne({ _id: id, isActive: true })
+      .select('firstName lastName image')
+      .exec();
+    if (!user) return null;
     return {
       _id: user.id,
       firstName: user.firstName,
       lastName: user.lastName,
-      email: user.email,
-      role: user.role,
       image: user.image,
     };
   }
 
-  async updateRefreshToken(
+  async isActive(userId: string): Promise<boolean> {
+    const count = await this.userModel.countDocuments({
+      _id: userId,
+      isActive: true,
+    });
+    return count > 0;
+  }
+
+  async findProfile(id: string): Promise<UserProfile | null> {
+    const user = await this.userModel.findById(id).exec();
+    return user ? this.toProfile(user) : null;
+  }
+
+  async updateProfile(
+    userId: string,
+    changes: { firstName?: string; lastName?: string; image?: string },
+  ): Promise<UserProfile | null> {
+    const user = await this.userModel
+      .findByIdAndUpdate(userId, changes, { new: true, runValidators: true })
+      .exec();
+    return user ? this.toProfile(user) : null;
+  }
+
+  async isEmailTaken(email: string, exceptUserId: string): Promise<boolean> {
+    const count = await this.userModel.countDocuments({
+      email: email.toLowerCase(),
+      _id: { $ne: exceptUserId },
+    });
+    return count > 0;
+  }
+
+  async setPendingEmail(
     userId: string,
-    refreshToken: string | null,
+    email: string,
+    tokenHash: string,
+    expiresAt: Date,
   ): Promise<void> {
-    const hashed = refreshToken
-      ? await bcrypt.hash(refreshToken, SALT_ROUNDS)
-      : null;
     await this.userModel.findByIdAndUpdate(userId, {
-      hashedRefreshToken: hashed,
+      pendingEmail: email.toLowerCase(),
+      emailChangeTokenHash: tokenHash,
+      emailChangeExpiresAt: expiresAt,
     });
   }
 
-  async validateRefreshToken(
+  /**
+   * Swaps in the pending address once its confirmation token is presented,
+   * returning null when the token is unknown, expired or not this user's.
+   */
+  async confirmEmailChange(
     userId: string,
-    refreshToken: string,
-  ): Promise<boolean> {
+    tokenHash: string,
+  ): Promise<UserProfile | null> {
+    const pending = await this.userModel
+      .findOne({
+        _id: userId,
+        emailChangeTokenHash: tokenHash,
+        emailChangeExpiresAt: { $gt: new Date() },
+        pendingEmail: { $ne: null },
+      })
+      .exec();
+    if (!pending) return null;
+
+    // Someone may have registered the address since the change was requested.
+    if (await this.isEmailTaken(pending.pendingEmail!, userId)) {
+      throw new ConflictException('Email already registered');
+    }
+
+    const user = await this.userModel
+      .findOneAndUpdate(
+        { _id: userId, emailChangeTokenHash: tokenHash },
+        {
+          email: pending.pendingEmail,
+          emailVerified: true,
+          pendingEmail: null,
+          emailChangeTokenHash: null,
+          emailChangeExpiresAt: null,
+        },
+        { new: true },
+      )
+      .exec();
+    return user ? this.toProfile(user) : null;
+  }
+
+  /**
+   * Marks the address as verified only while it is still the account's
+   * email, so a link sent to a previous address cannot verify a new one.
+   */
+  async markEmailVerified(userId: string, email: string): Promise<boolean> {
+    const result = await this.userModel.updateOne(
+      { _id: userId, email: email.toLowerCase() },
+      { emailVerified: true },
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Marks accounts stored before email verification existed as verified, so
+   * they can still log in. Those records have no `emailVerified` field at
+   * all, unlike new sign-ups that have not confirmed yet. Used by the CLI.
+   */
+  async verifyLegacyAccounts(): Promise<number> {
+    const result = await this.userModel.updateMany(
+      { emailVerified: { $exists: false } },
+      { $set: { emailVerified: true } },
+    );
+    return result.modifiedCount;
+  }
+
+  async setPasswordResetToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      passwordResetTokenHash: tokenHash,
+      passwordResetExpiresAt: expiresAt,
+    });
+  }
+
+  /**
+   * Looks up the owner of a live reset token without claiming it, with the
+   * password hashes needed to check a new password for reuse.
+   */
+  async findByPasswordResetToken(
+    tokenHash: string,
+  ): Promise<UserDocument | null> {
+    return this.userModel
+      .findOne({
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpiresAt: { $gt: new Date() },
+      })
+      .select('+password +passwordHistory')
+      .exec();
+  }
+
+  /**
+   * Atomically claims a reset token so it cannot be redeemed twice, returning
+   * the owner or null when the token is unknown or expired.
+   */
+  async consumePasswordResetToken(
+    tokenHash: string,
+  ): Promise<UserDocument | null> {
+    return this.userModel
+      .findOneAndUpdate(
+        {
+          passwordResetTokenHash: tokenHash,
+          passwordResetExpiresAt: { $gt: new Date() },
+        },
+        { passwordResetTokenHash: null, passwordResetExpiresAt: null },
+      )
+      .exec();
+  }
+
+  async setMagicLinkToken(
+    userId: string,
+    tokenHash: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      magicLinkTokenHash: tokenHash,
+      magicLinkExpiresAt: expiresAt,
+    });
+  }
+
+  /**
+   * Atomically claims a sign-in link for the address it was sent to. The
+   * link proves ownership of that address, so it also verifies the email.
+   */
+  async consumeMagicLinkToken(
+    email: string,
+    tokenHash: string,
+  ): Promise<UserDocument | null> {
+    return this.userModel
+      .findOneAndUpdate(
+        {
+          email: email.toLowerCase(),
+          magicLinkTokenHash: tokenHash,
+          magicLinkExpiresAt: { $gt: new Date() },
+        },
+        {
+          magicLinkTokenHash: null,
+          magicLinkExpiresAt: null,
+          emailVerified: true,
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  /**
+   * Redeeming a mailed reset link also proves ownership of the address, so
+   * the email counts as verified afterwards.
+   */
+  async resetPassword(userId: string, password: string): Promise<void> {
+    await this.setPassword(userId, password, { emailVerified: true });
+  }
+
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<void> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+password')
+      .exec();
+    if (!user) throw new NotFoundException(`User #${userId} not found`);
+
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    await this.setPassword(userId, newPassword);
+  }
+
+  async verifyPassword(userId: string, password: string): Promise<boolean> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+password')
+      .exec();
+    if (!user) return false;
+    return bcrypt.compare(password, user.password);
+  }
+
+  /**
+   * Strips everything personal from the record and blocks it, keeping only
+   * the id (still referenced by audit logs) until purgeDeleted removes it.
+   * Returns the avatar URL the account had, or null if it was not found.
+   */
+  async softDelete(userId: string): Promise<{ image: string | null } | null> {
+    const unusablePassword = await bcrypt.hash(generateToken(), SALT_ROUNDS);
+    const user = await this.userModel
+      .findOneAndUpdate(
+        { _id: userId, deletedAt: null },
+        {
+          firstName: 'Deleted',
+          lastName: 'User',
+          email: `deleted-${userId}@deleted.invalid`,
+          password: unusablePassword,
+          passwordHistory: [],
+          image: null,
+          emailVerified: false,
+          pendingEmail: null,
+          role: UserRole.USER,
+          isActive: false,
+          deletedAt: new Date(),
+          passwordResetTokenHash: null,
+          passwordResetExpiresAt: null,
+          magicLinkTokenHash: null,
+          magicLinkExpiresAt: null,
+          emailChangeTokenHash: null,
+          emailChangeExpiresAt: null,
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorRecoveryCodes: [],
+        },
+      )
+      .exec();
+    return user ? { image: user.image } : null;
+  }
+
+  /**
+   * Hard-deletes accounts soft-deleted before the cutoff and returns their
+   * ids, so records referencing them elsewhere can be cleaned up.
+   */
+  async purgeDeleted(deletedBefore: Date): Promise<string[]> {
+    const expired = { deletedAt: { $ne: null, $lte: deletedBefore } };
+    const users = await this.userModel.find(expired).select('_id').exec();
+    if (users.length === 0) return [];
+
+    await this.userModel.deleteMany({
+      ...expired,
+      _id: { $in: users.map((user) => user._id) },
+    });
+    return users.map((user) => user.id);
+  }
+
+  /** Applies the password policy, then stores the new hash and history. */
+  private async setPassword(
+    userId: string,
+    password: string,
+    extra: Partial<User> = {},
+  ): Promise<void> {
+    this.passwordPolicy.assertAcceptable(password);
+
     const user = await this.userModel
       .findById(userId)
-      .select('+hashedRefreshToken')
+      .select('+password +passwordHistory')
+      .exec();
+    if (!user) throw new NotFoundException(`User #${userId} not found`);
+
+    await this.passwordPolicy.assertNotReused(password, [
+      user.password,
+      ...user.passwordHistory,
+    ]);
+
+    await this.userModel.findByIdAndUpdate(userId, {
+      ...extra,
+      password: await bcrypt.hash(password, SALT_ROUNDS),
+      passwordHistory: this.passwordPolicy.nextHistory(
+        user.password,
+        user.passwordHistory,
+      ),
+    });
+  }
+
+  async findWithTwoFactorSecrets(id: string): Promise<UserDocument | null> {
+    return this.userModel
+      .findById(id)
+      .select(
+        '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastStep',
+      )
+      .exec();
+  }
+
+  async setPendingTwoFactorSecret(
+    userId: string,
+    secret: string,
+  ): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      twoFactorPendingSecret: secret,
+    });
+  }
+
+  async enableTwoFactor(
+    userId: string,
+    secret: string,
+    recoveryCodeHashes: string[],
+    step: number,
+  ): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      twoFactorEnabled: true,
+      twoFactorSecret: secret,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: recoveryCodeHashes,
+      twoFactorLastStep: step,
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorPendingSecret: null,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastStep: 0,
+    });
+  }
+
+  /**
+   * Records the time step of an accepted TOTP code. Fails when that step (or
+   * a later one) was already used, which is how code replays are refused.
+   */
+  async claimTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const result = await this.userModel.updateOne(
+      { _id: userId, twoFactorLastStep: { $lt: step } },
+      { twoFactorLastStep: step },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async consumeRecoveryCode(
+    userId: string,
+    codeHash: string,
+  ): Promise<boolean> {
+    const result = await this.userModel.updateOne(
+      { _id: userId, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } },
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Counts a failed password attempt and locks the account once the
+   * threshold is reached, reporting whether this attempt caused the lock.
+   */
+  async registerFailedLogin(
+    userId: string,
+    maxAttempts: number,
+    lockoutMs: number,
+  ): Promise<{ attempts: number; locked: boolean }> {
+    const user = await this.userModel
+      .findByIdAndUpdate(
+        userId,
+        { $inc: { failedLoginAttempts: 1 } },
+        { new: true },
+      )
+      .select('+failedLoginAttempts')
       .exec();
-    if (!user?.hashedRefreshToken) return false;
-    return bcrypt.compare(refreshToken, user.hashedRefreshToken);
+    const attempts = user?.failedLoginAttempts ?? 0;
+    if (attempts < maxAttempts) return { attempts, locked: false };
+
+    await this.userModel.findByIdAndUpdate(userId, {
+      failedLoginAttempts: 0,
+      lockedUntil: new Date(Date.now() + lockoutMs),
+    });
+    return { attempts, locked: true };
+  }
+
+  async clearFailedLogins(userId: string): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+  }
+
+  async unlock(userId: string): Promise<boolean> {
+    if (!isValidObjectId(userId)) return false;
+
+    const user = await this.userModel.findByIdAndUpdate(userId, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+    return user !== null;
+  }
+
+  /** Assigns a role without any caller checks; used by the CLI bootstrap. */
+  async setRole(userId: string, role: string): Promise<void> {
+    await this.userModel.findByIdAndUpdate(userId, { role });
+  }
+
+  /**
+   * Moves a user to another role. The actor must already hold every
+   * permission of both the current and the new role, so nobody can hand
+   * out (or take away) more than they have themselves.
+   */
+  async changeRole(
+    actor: JwtUser,
+    userId: string,
+    role: string,
+  ): Promise<{ user: SafeUser; previousRole: string }> {
+    if (userId === actor.userId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    const target = await this.findManageable(userId);
+
+    const name = role.toLowerCase();
+    if (!(await this.rolesService.exists(name))) {
+      throw new BadRequestException(`Role "${name}" does not exist`);
+    }
+    await this.assertOutranks(actor, [target.role, name]);
+
+    const previousRole = target.role;
+    target.role = name;
+    await target.save();
+
+    return { user: this.toSafeUser(target), previousRole };
+  }
+
+  /**
+   * Administrative edit of another account. A new email replaces the old
+   * one at once but has to be verified again before the user can sign in.
+   */
+  async adminUpdate(
+    actor: JwtUser,
+    userId: string,
+    adminUpdateUserDto: AdminUpdateUserDto,
+  ): Promise<{ user: ManagedUser; changed: string[] }> {
+    const changed = Object.keys(adminUpdateUserDto);
+    if (changed.length === 0) {
+      throw new BadRequestException(
+        'At least one field must be provided for update',
+      );
+    }
+
+    const target = await this.findManageable(userId);
+    if (userId !== actor.userId) {
+      await this.assertOutranks(actor, [target.role]);
+    }
+
+    const { email, ...names } = adminUpdateUserDto;
+    target.set(names);
+    if (email && email.toLowerCase() !== target.email) {
+      if (await this.isEmailTaken(email, userId)) {
+        throw new ConflictException('Email already registered');
+      }
+      target.set({
+        email: email.toLowerCase(),
+        emailVerified: false,
+        pendingEmail: null,
+        emailChangeTokenHash: null,
+        emailChangeExpiresAt: null,
+      });
+    }
+    await target.save();
+
+    return { user: this.toManagedUser(target), changed };
+  }
+
+  async setActive(
+    actor: JwtUser,
+    userId: string,
+    isActive: boolean,
+  ): Promise<ManagedUser> {
+    if (userId === actor.userId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    const target = await this.findManageable(userId);
+    await this.assertOutranks(actor, [target.role]);
+
+    target.isActive = isActive;
+    await target.save();
+    return this.toManagedUser(target);
+  }
+
+  private async findManageable(userId: string): Promise<UserDocument> {
+    const target = isValidObjectId(userId)
+      ? await this.userModel.findOne({ _id: userId, deletedAt: null }).exec()
+      : null;
+    if (!target) throw new NotFoundException(`User #${userId} not found`);
+    return target;
+  }
+
+  /**
+   * Throws unless the actor holds every permission of the given roles.
+   * Guards all changes to other accounts and to role assignments.
+   */
+  async assertOutranks(actor: JwtUser, roles: string[]): Promise<void> {
+    const [actorPermissions, ...others] = await Promise.all([
+      this.rolesService.getPermissions(actor.role),
+      ...roles.map((role) => this.rolesService.getPermissions(role)),
+    ]);
+    if (others.flat().some((p) => !actorPermissions.includes(p))) {
+      throw new ForbiddenException(
+        'You cannot manage users or roles with permissions you do not hold',
+      );
+    }
+  }
+
+  private toSafeUser(user: UserDocument): SafeUser {
+    return {
+      _id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      role: user.role,
+      image: user.image,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+    };
+  }
+
+  private toManagedUser(user: UserDocument): ManagedUser {
+    return {
+      ...this.toSafeUser(user),
+      isActive: user.isActive,
+      lockedUntil: user.lockedUntil,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  private toProfile(user: UserDocument): UserProfile {
+    return { ...this.toSafeUser(user), pendingEmail: user.pendingEmail };
   }
 }
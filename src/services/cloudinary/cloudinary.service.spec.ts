@@ -1,12 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CloudinaryService } from './cloudinary.service';
+import { CLOUDINARY } from './cloudinary.provider';
 
 describe('CloudinaryService', () => {
   let service: CloudinaryService;
 
+  const mockCloudinary = {
+    uploader: { destroy: jest.fn() },
+  };
+
   beforeEach(async () => {
+    jest.clearAllMocks();
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CloudinaryService],
+      providers: [
+        CloudinaryService,
+        { provide: CLOUDINARY, useValue: mockCloudinary },
+      ],
     }).compile();
 
     service = module.get<CloudinaryService>(CloudinaryService);
@@ -15,4 +25,61 @@ describe('CloudinaryService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('extractPublicId', () => {
+    it('keeps the folder and drops the version and extension', () => {
+      expect(
+        service.extractPublicId(
+          'https://res.cloudinary.com/demo/image/upload/v1712345678/nest-practice/abc123.jpg',
+        ),
+      ).toBe('nest-practice/abc123');
+    });
+
+    it('skips transformations before the version', () => {
+      expect(
+        service.extractPublicId(
+          'https://res.cloudinary.com/demo/image/upload/c_fill,w_200/v1712345678/projects/cover.png',
+        ),
+      ).toBe('projects/cover');
+    });
+
+    it('handles URLs without a version', () => {
+      expect(
+        service.extractPublicId(
+          'https://res.cloudinary.com/demo/image/upload/sample.jpg',
+        ),
+      ).toBe('sample');
+    });
+
+    it('returns null for other URLs', () => {
+      expect(
+        service.extractPublicId('https://example.com/avatar.png'),
+      ).toBeNull();
+    });
+  });
+
+  describe('deleteByUrl', () => {
+    const url =
+      'https://res.cloudinary.com/demo/image/upload/v1/nest-practice/old.jpg';
+
+    it('destroys the image behind the URL', async () => {
+      await service.deleteByUrl(url);
+
+      expect(mockCloudinary.uploader.destroy).toHaveBeenCalledWith(
+        'nest-practice/old',
+      );
+    });
+
+    it('ignores URLs that are not Cloudinary uploads', async () => {
+      await service.deleteByUrl('https://example.com/avatar.png');
+
+      expect(mockCloudinary.uploader.destroy).not.toHaveBeenCalled();
+    });
+
+    it('logs failures instead of throwing', async () => {
+      mockCloudinary.uploader.destroy.mockRejectedValueOnce(new Error('down'));
+
+      await expect(service.deleteByUrl(url)).resolves.toBeUndefined();
+    });
+  });
 });
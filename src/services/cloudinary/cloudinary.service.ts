@@ -1,4 +1,9 @@
-import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import type { UploadApiResponse } from 'cloudinary';
 import { v2 } from 'cloudinary';
 import { Readable } from 'stream';
@@ -6,6 +11,8 @@ import { CLOUDINARY } from './cloudinary.provider';
 
 @Injectable()
 export class CloudinaryService {
+  private readonly logger = new Logger(CloudinaryService.name);
+
   constructor(
     @Inject(CLOUDINARY)
     private readonly cloudinary: typeof v2,
@@ -54,4 +61,35 @@ export class CloudinaryService {
   async deleteFile(publicId: string): Promise<void> {
     await this.cloudinary.uploader.destroy(publicId);
   }
+
+  /**
+   * Deletes the image behind a delivery URL. Used to clean up after a change
+   * that has already been saved, so a failure is logged instead of thrown.
+   * URLs that are not Cloudinary uploads are ignored.
+   */
+  async deleteByUrl(url: string): Promise<void> {
+    const publicId = this.extractPublicId(url);
+    if (!publicId) return;
+
+    try {
+      await this.deleteFile(publicId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete image ${publicId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Recovers the public ID (folder included) from a delivery URL such as
+   * https://res.cloudinary.com/demo/image/upload/v1234567890/projects/sample.jpg
+   * which yields "projects/sample". Anything before the version segment is a
+   * transformation. Returns null for URLs that are not Cloudinary uploads.
+   */
+  extractPublicId(url: string): string | null {
+    const match =
+      url.match(/\/upload\/(?:.*?\/)?v\d+\/(.+?)(?:\.[^./]+)?$/) ??
+      url.match(/\/upload\/(.+?)(?:\.[^./]+)?$/);
+    return match ? match[1] : null;
+  }
 }
@@ -0,0 +1,23 @@
+import { Logger } from '@nestjs/common';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mailer.types';
+
+// Development / test driver: nothing leaves the machine. Only the recipient
+// and subject are logged, since bodies carry single-use tokens; when a
+// directory is configured, each message is written out in full as JSON.
+export class LogMailDriver implements MailTransport {
+  private readonly logger = new Logger(LogMailDriver.name);
+
+  constructor(private readonly dir: string | null) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`Mail to ${message.to}: ${message.subject}`);
+
+    if (!this.dir) return;
+
+    await mkdir(this.dir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9]/gi, '_')}.json`;
+    await writeFile(join(this.dir, fileName), JSON.stringify(message, null, 2));
+  }
+}
@@ -0,0 +1,20 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailConfig } from '../../../config/mail.config';
+import { MailMessage, MailTransport } from '../mailer.types';
+
+export class SmtpMailDriver implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(config: MailConfig['smtp']) {
+    this.transporter = createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MailerService } from './mailer.service';
+import { MailTransportProvider } from './mailer.provider';
+
+@Module({
+  providers: [MailTransportProvider, MailerService],
+  exports: [MailerService],
+})
+export class MailerModule {}
@@ -0,0 +1,24 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailConfig } from '../../config/mail.config';
+import { MailTransport } from './mailer.types';
+import { SmtpMailDriver } from './drivers/smtp.driver';
+import { LogMailDriver } from './drivers/log.driver';
+
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export const MailTransportProvider: Provider = {
+  provide: MAIL_TRANSPORT,
+  useFactory: (configService: ConfigService): MailTransport => {
+    const config = configService.get<MailConfig>('mail');
+
+    if (!config) {
+      throw new Error('Mail configuration is missing');
+    }
+
+    return config.driver === 'smtp'
+      ? new SmtpMailDriver(config.smtp)
+      : new LogMailDriver(config.logDir);
+  },
+  inject: [ConfigService],
+};
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MailerService } from './mailer.service';
+import { MAIL_TRANSPORT } from './mailer.provider';
+import { MailMessage } from './mailer.types';
+
+describe('MailerService', () => {
+  let service: MailerService;
+
+  const mockTransport = {
+    send: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ from: 'no-reply@example.com' }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailerService,
+        { provide: MAIL_TRANSPORT, useValue: mockTransport },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<MailerService>(MailerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should send through the transport with the configured sender', async () => {
+    await service.send({ to: 'a@example.com', subject: 'Hi', text: 'Hello' });
+
+    expect(mockTransport.send).toHaveBeenCalledWith({
+      to: 'a@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+      from: 'no-reply@example.com',
+    });
+  });
+
+  it('should include the reset link in password reset mails', async () => {
+    await service.sendPasswordReset(
+      'a@example.com',
+      'http://localhost:3000/reset-password?token=abc',
+    );
+
+    const [message] = mockTransport.send.mock.calls[0] as [MailMessage];
+    expect(message.to).toBe('a@example.com');
+    expect(message.text).toContain(
+      'http://localhost:3000/reset-password?token=abc',
+    );
+  });
+});
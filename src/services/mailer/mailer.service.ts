@@ -0,0 +1,67 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailConfig } from '../../config/mail.config';
+import { MAIL_TRANSPORT } from './mailer.provider';
+import type { MailMessage, MailTransport } from './mailer.types';
+
+@Injectable()
+export class MailerService {
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { from } = this.configService.get<MailConfig>('mail')!;
+    await this.transport.send({ ...message, from });
+  }
+
+  async sendEmailVerification(to: string, verifyUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: `Please confirm your email address by opening the link below:\n${verifyUrl}\n\nIf you did not create an account, you can ignore this email.`,
+    });
+  }
+
+  async sendEmailChange(to: string, confirmUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Confirm your new email address',
+      text: `Please confirm that this is the new email address for your account by opening the link below:\n${confirmUrl}\n\nIf you did not ask for this change, you can ignore this email.`,
+    });
+  }
+
+  async sendEmailChangeNotice(to: string, newEmail: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your email address is being changed',
+      text: `Someone asked to change the email address of your account to ${newEmail}. The change takes effect once the new address is confirmed.\n\nIf this was not you, change your password and sign out of all sessions.`,
+    });
+  }
+
+  async sendInvitation(to: string, acceptUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: "You've been invited",
+      text: `You have been invited to create an account. Open the link below to choose your password and get started:\n${acceptUrl}\n\nIf you were not expecting this invitation, you can ignore this email.`,
+    });
+  }
+
+  async sendMagicLink(to: string, signInUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your sign-in link',
+      text: `Open the link below to sign in. It can only be used once and expires soon:\n${signInUrl}\n\nIf you did not request this, you can ignore this email.`,
+    });
+  }
+
+  async sendPasswordReset(to: string, resetUrl: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: `We received a request to reset your password.\n\nOpen the link below to choose a new one:\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`,
+    });
+  }
+}